@@ -6,6 +6,8 @@ import * as fs from "fs";
 import * as rimraf from "rimraf";
 import * as sdk from "../index";
 import {fatalError, ensureParentDirExists, Command} from "./utils";
+import {readImageSize} from "./image-size";
+import {readVideoInfo, PLAYABLE_CODECS} from "./video-info";
 
 export default {
   name: "build-content",
@@ -33,14 +35,18 @@ export function buildContentCOmmand(contentSourceFolder: string, buildFolder: st
   const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "gif"];
   const VIDEO_EXTENSIONS = ["mp4", "ogv", "webm"];
 
+  // allow 1% difference when checking aspect ratios, so that e.g. 1366x768 passes as 16:9
+  const ASPECT_RATIO_TOLERANCE = 0.01;
+
   process.once("exit", cleanup);
 
-  let contentSchema = getModuleDefaultOutput("content-schema");
-  writeJSONFile(contentSchema, "content-schema");
+  let errors: string[] = [];
+  let videoInfo: { [videoPath: string]: sdk.VideoInfo } = {};
 
+  let contentSchemaModule = getModule("content-schema");
+  let contentSchema = getModuleDefaultOutput("content-schema");
+  let contentMigrations: sdk.ContentMigrations = contentSchemaModule.contentMigrations || {};
   let defaultContent: any = getModuleDefaultOutput("default-content");
-  validateDefaultContent(contentSchema, defaultContent);
-  writeJSONFile(defaultContent, "default-content");
 
   let appPackageJson = getAppPackageJSON(contentSourceFolder);
 
@@ -55,9 +61,27 @@ export function buildContentCOmmand(contentSourceFolder: string, buildFolder: st
       (metadata as any)[prop] = appPackageJson[keymap[prop]];
     }
   }
-  writeJSONFile(metadata, "metadata");
-  validateImage(metadata.defaultIconSrc, "metadata.defaultIconSrc", false);
+  validateImage(metadata.defaultIconSrc, "metadata.defaultIconSrc");
   validateMenuNodes(metadata.menuNodes, "metadata.menuNodes");
+  errors.push(...sdk.validateMenuNodeIds(metadata.menuNodes, "metadata.menuNodes").map(problem => `Expected menu node ids to be unique, but ${problem}`));
+  validateLocales(metadata.locales, "metadata.locales");
+
+  validateDefaultContent(contentSchema, defaultContent);
+  validateContentMigrations(contentMigrations);
+
+  if (errors.length > 0) {
+    fatalError(`Found ${errors.length} problem${errors.length === 1 ? "" : "s"} with the app content:\n  - ${errors.join("\n  - ")}`);
+  }
+
+  // the default content is always written against the current version of the schema
+  let schemaVersion = sdk.getContentSchemaVersion(contentMigrations);
+  contentSchema[sdk.CONTENT_SCHEMA_VERSION_KEY] = schemaVersion;
+  defaultContent[sdk.CONTENT_SCHEMA_VERSION_KEY] = schemaVersion;
+  metadata.contentSchemaVersion = schemaVersion;
+  writeJSONFile(contentSchema, "content-schema");
+  writeJSONFile(defaultContent, "default-content");
+  writeJSONFile(metadata, "metadata");
+  writeJSONFile(videoInfo, "video-info", "video information");
 
   let tmpDir = path.join(process.cwd(), "tmp");
   let tsRequireDir = path.join(tmpDir, "tsreq");
@@ -88,56 +112,204 @@ export function buildContentCOmmand(contentSourceFolder: string, buildFolder: st
   }
 
 
+  /**
+   * Check the default content against the schema, adding a message to `errors` for every
+   * problem found rather than stopping at the first one
+   */
   function validateDefaultContent(schema: any, content: any) {
-    for (let key in schema) {
-      if (!(key in content)) {
-        fatalError(`Schema contains item "${key} that is missing from the content.`);
+    validateFields(schema, content, "content");
+    return content;
+
+    function validateFields(fields: any, values: any, path: string) {
+      if (!values || typeof values !== "object" || Array.isArray(values)) {
+        errors.push(`Expected ${path} to be an object, but it is a ${typeof values}`);
+        return;
+      }
+      for (let key in fields) {
+        if (!(key in values)) {
+          errors.push(`Schema contains item "${key}" that is missing from ${path}.`);
+        } else {
+          validateValue(fields[key], values[key], `${path}.${key}`);
+        }
+      }
+      for (let key in values) {
+        if (!(key in fields)) {
+          errors.push(`${path} contains item "${key}" that doesn't exist in the schema.`);
+        }
       }
-      let schemaItem: sdk.ContentDescriptor<any> & sdk.ListOptions<sdk.ImageOptions & sdk.ContentDescriptor<any>> & sdk.ImageOptions = schema[key];
+    }
+
+    function validateValue(schemaItem: SchemaItem, value: any, path: string) {
       if (schemaItem.type === "image") {
-        validateType([content[key]], "string", "a relative file path", key);
-        validateImage(content[key], `content.${key}`, schemaItem.isVideo);
+        if (validateType(value, "string", "a relative file path", path)) {
+          validateImage(value, path, schemaItem);
+        }
+      }
+      if (schemaItem.type === "text" && schemaItem.localized) {
+        validateLocalizedText(value, schemaItem, path);
       }
-      if (schemaItem.type === "text") {
-        validateType([content[key]], "string", "a string", key);
+      else if (schemaItem.type === "text") {
+        if (validateType(value, "string", "a string", path)) {
+          validateText(value, schemaItem, path);
+        }
       }
       if (schemaItem.type === "number") {
-        validateType([content[key]], "number", "a number", key);
+        if (validateType(value, "number", "a number", path)) {
+          validateNumber(value, schemaItem, path);
+        }
       }
-      if (schemaItem.type === "list") {
-        if (!Array.isArray(content[key])) {
-          fatalError(`Expected content.${key} to be an array, but it is a ${typeof content[key]}`);
-        } else {
-          if (schemaItem.items.type === "image") {
-            validateType(content[key], "string", "an array of relative file paths", key);
-            (content[key] as string[]).forEach((path, i) => validateImage(path, `content.${key}[${i}]`, schemaItem.items.isVideo));
-          }
-          if (schemaItem.items.type === "text") {
-            validateType(content[key], "string", "an array of strings", key);
+      if (schemaItem.type === "boolean") {
+        validateType(value, "boolean", "a boolean", path);
+      }
+      if (schemaItem.type === "color") {
+        if (validateType(value, "string", "a colour string", path)) {
+          let pattern = schemaItem.allowTransparency ? /^#([0-9a-f]{6}|[0-9a-f]{8})$/i : /^#[0-9a-f]{6}$/i;
+          if (!pattern.test(value)) {
+            let format = schemaItem.allowTransparency ? `"#RRGGBB" or "#RRGGBBAA"` : `"#RRGGBB"`;
+            errors.push(`Expected ${path} to be a colour in the format ${format}, but it is "${value}"`);
           }
-          if (schemaItem.items.type === "number") {
-            validateType(content[key], "number", "an array of numbers", key);
+        }
+      }
+      if (schemaItem.type === "choice") {
+        if (validateType(value, "string", "a string", path)) {
+          let values = (schemaItem.options || []).map(option => option.value);
+          if (values.indexOf(value) === -1) {
+            errors.push(`Expected ${path} to be one of ${JSON.stringify(values)}, but it is "${value}"`);
           }
         }
       }
+      if (schemaItem.type === "date") {
+        if (validateType(value, "string", "a date string", path)) {
+          validateDate(value, schemaItem, path);
+        }
+      }
+      if (schemaItem.type === "richtext") {
+        if (validateType(value, "string", "a string", path)) {
+          validateRichText(value, schemaItem, path);
+        }
+      }
+      if (schemaItem.type === "group") {
+        validateFields(schemaItem.fields, value, path);
+      }
+      if (schemaItem.type === "list") {
+        if (!Array.isArray(value)) {
+          errors.push(`Expected ${path} to be an array, but it is a ${typeof value}`);
+          return;
+        }
+        validateRange(value.length, schemaItem.minCount, schemaItem.maxCount, `${path} to have`, "items");
+        (value as any[]).forEach((item, i) => validateValue(schemaItem.items, item, `${path}[${i}]`));
+      }
     }
-    for (let key in content) {
-      if (!(key in schema)) {
-        fatalError(`Content contains item "${key}" that doesn't exist in the schema.`);
+
+    function validateType(value: any, expectedType: string, expectedTypeHuman: string, path: string): boolean {
+      if (typeof value !== expectedType) {
+        errors.push(`Expected ${path} to be ${expectedTypeHuman}, but it is a ${typeof value}`);
+        return false;
       }
+      return true;
     }
-    return content;
 
-    function validateType(items: any[], expectedType: string, expectedTypeHuman: string, key: string) {
-      for (let item of items) {
-        if (typeof item !== expectedType) {
-          fatalError(`Expected content.${key} to be ${expectedTypeHuman}, but it contains a ${typeof item}`);
+    function validateText(value: string, options: sdk.TextOptions, path: string) {
+      validateRange(value.length, options.minLength, options.maxLength, `${path} to have`, "characters");
+      if (!options.multiline && /[\r\n]/.test(value)) {
+        errors.push(`Expected ${path} to be a single line, but it contains a newline`);
+      }
+      if (options.validation && !new RegExp(options.validation.regex).test(value)) {
+        errors.push(`Expected ${path} to look like ${options.validation.validExamples}, but it is "${value}" (it must match the regex /${options.validation.regex}/)`);
+      }
+    }
+
+    function validateLocalizedText(value: any, options: sdk.TextOptions, path: string) {
+      if (!Array.isArray(metadata.locales) || metadata.locales.length === 0) {
+        errors.push(`${path} is localized, so metadata.locales must list the locales that it is translated into`);
+        return;
+      }
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        errors.push(`Expected ${path} to be an object with a string for each locale in ${JSON.stringify(metadata.locales)}, but it is a ${typeof value}`);
+        return;
+      }
+      for (let locale of metadata.locales) {
+        if (!(locale in value)) {
+          errors.push(`${path} is missing a translation for the locale "${locale}"`);
+        } else if (validateType(value[locale], "string", "a string", `${path}.${locale}`)) {
+          validateText(value[locale], options, `${path}.${locale}`);
         }
       }
+      for (let locale in value) {
+        if (metadata.locales.indexOf(locale) === -1) {
+          errors.push(`${path} contains a translation for the locale "${locale}", which is not in metadata.locales`);
+        }
+      }
+    }
+
+    function validateNumber(value: number, options: sdk.NumberOptions, path: string) {
+      validateRange(value, options.minValue, options.maxValue, `${path} to be`, "");
+      if (options.integer && Math.round(value) !== value) {
+        errors.push(`Expected ${path} to be a whole number, but it is ${value}`);
+      }
+    }
+
+    function validateDate(value: string, options: sdk.DateOptions, path: string) {
+      let isRealDate = /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value))
+        && new Date(value).toISOString().slice(0, 10) === value;
+      if (!isRealDate) {
+        errors.push(`Expected ${path} to be a date in the format "YYYY-MM-DD", but it is "${value}"`);
+        return;
+      }
+      if (options.minDate && value < options.minDate) {
+        errors.push(`Expected ${path} to be no earlier than ${options.minDate}, but it is ${value}`);
+      }
+      if (options.maxDate && value > options.maxDate) {
+        errors.push(`Expected ${path} to be no later than ${options.maxDate}, but it is ${value}`);
+      }
+    }
+
+    function validateRichText(value: string, options: sdk.RichTextOptions, path: string) {
+      let tagPattern = /<(\/?)([a-z0-9]*)([^>]*)>/gi;
+      let match: RegExpExecArray;
+      while (match = tagPattern.exec(value)) {
+        let [tag, , tagName, attributes] = match;
+        if (sdk.RICH_TEXT_TAGS.indexOf(tagName.toLowerCase()) === -1) {
+          errors.push(`${path} contains the tag ${tag}, but rich text may only contain the tags ${sdk.RICH_TEXT_TAGS.join(", ")}`);
+        }
+        if (attributes.replace("/", "").trim() !== "") {
+          errors.push(`${path} contains the tag ${tag}, but rich text tags may not have attributes`);
+        }
+      }
+      let plainText = value.replace(tagPattern, "");
+      if (/[<>]/.test(plainText)) {
+        errors.push(`${path} contains a "<" or ">" character that is not part of a tag, use &lt; and &gt; instead`);
+      }
+      let textLength = plainText.replace(/&[a-z0-9#]+;/gi, " ").length;
+      validateRange(textLength, options.minLength, options.maxLength, `${path} to have`, "characters of text");
+    }
+  }
+
+  /**
+   * Check that a value is within an optional inclusive range, the description reading as
+   * e.g. "Expected content.foo to have at least 4 characters"
+   */
+  function validateRange(value: number, min: number, max: number, description: string, units: string) {
+    let unitsSuffix = units ? " " + units : "";
+    if (typeof min === "number" && value < min) {
+      errors.push(`Expected ${description} at least ${min}${unitsSuffix}, but got ${value}`);
+    }
+    if (typeof max === "number" && value > max) {
+      errors.push(`Expected ${description} at most ${max}${unitsSuffix}, but got ${value}`);
     }
   }
 
 
+  function validateContentMigrations(migrations: sdk.ContentMigrations) {
+    for (let version of Object.keys(migrations)) {
+      if (!/^\d+$/.test(version) || parseInt(version) < 2) {
+        errors.push(`Expected the keys of the contentMigrations exported by content-schema.ts to be schema versions of at least 2, but got ${JSON.stringify(version)}`);
+      } else if (typeof (migrations as any)[version] !== "function") {
+        errors.push(`Expected contentMigrations[${version}] exported by content-schema.ts to be a function`);
+      }
+    }
+  }
+
   function validateMenuNodes(nodes: sdk.MenuNode[], propName: string) {
     if (nodes) {
       nodes.forEach((child, i) => validateMenuNode(child, `${propName}[${i}]`));
@@ -145,38 +317,91 @@ export function buildContentCOmmand(contentSourceFolder: string, buildFolder: st
   }
 
   function validateMenuNode(node: sdk.MenuNode, propName: string) {
-    validateImage(node.iconSrc, `${propName}.iconSrc`, false);
+    validateImage(node.iconSrc, `${propName}.iconSrc`);
+    if (node.badge !== undefined && typeof node.badge !== "string") {
+      errors.push(`Expected ${propName}.badge to be a string, but it is ${JSON.stringify(node.badge)}`);
+    }
     validateMenuNodes(node.children, `${propName}.children`);
   }
 
-  function validateImage(imagePath: string, propName: string, isVideo: boolean) {
+  function validateLocales(locales: string[], propName: string) {
+    if (locales === undefined) {
+      return;
+    }
+    if (!Array.isArray(locales) || locales.some(locale => typeof locale !== "string" || !/^[a-z]{2,3}(-[A-Za-z0-9]+)*$/.test(locale))) {
+      errors.push(`Expected ${propName} to be an array of locale codes like ["en", "fr-CA"], but it is ${JSON.stringify(locales)}`);
+    }
+  }
+
+  function validateImage(imagePath: string, propName: string, options?: sdk.ImageOptions) {
+    let isVideo = !!(options && options.isVideo);
     let source = path.resolve(assetsFolder, imagePath);
     if (!fs.existsSync(source)) {
-      fatalError(`File "${source}" is referenced by ${propName} but does not exist.`);
+      errors.push(`File "${source}" is referenced by ${propName} but does not exist.`);
+      return;
     }
     let extensions = isVideo ? VIDEO_EXTENSIONS : IMAGE_EXTENSIONS;
     let extension = source.replace(/^[^\.]*\./, "").toLowerCase();
     if (extensions.indexOf(extension) === -1) {
-      fatalError(`File "${source}" referenced by ${propName} is th wrong type; supported extensions are: ${extensions.join(", ")}`);
+      errors.push(`File "${source}" referenced by ${propName} is th wrong type; supported extensions are: ${extensions.join(", ")}`);
+      return;
+    }
+    if (isVideo) {
+      validateVideo(source, imagePath, propName, options);
+    } else if (options) {
+      let size = readImageSize(source);
+      if (!size) {
+        errors.push(`File "${source}" referenced by ${propName} is not a valid ${extension.toUpperCase()} image`);
+        return;
+      }
+      validateDimensions(size.width, size.height, options, `file "${nicePath(source)}" referenced by ${propName}`);
     }
   }
 
+  function validateVideo(source: string, videoPath: string, propName: string, options: sdk.ImageOptions) {
+    let info = readVideoInfo(source);
+    if (!info) {
+      errors.push(`File "${source}" referenced by ${propName} is not a valid MP4, WebM or Ogg video`);
+      return;
+    }
+    let playableCodecs = PLAYABLE_CODECS[info.container];
+    if (playableCodecs.indexOf(info.codec) === -1) {
+      errors.push(`File "${source}" referenced by ${propName} uses the codec "${info.codec}", which Chrome can't play; supported ${info.container} codecs are: ${playableCodecs.join(", ")}`);
+    }
+    validateDimensions(info.width, info.height, options, `file "${nicePath(source)}" referenced by ${propName}`);
+    videoInfo[videoPath] = info;
+  }
+
+  function validateDimensions(width: number, height: number, options: sdk.ImageOptions, description: string) {
+    validateRange(width, options.minWidth, options.maxWidth, `${description} to have a width of`, "pixels");
+    validateRange(height, options.minHeight, options.maxHeight, `${description} to have a height of`, "pixels");
+    if (options.aspectRatio) {
+      let aspectRatio = width / height;
+      if (Math.abs(aspectRatio / options.aspectRatio - 1) > ASPECT_RATIO_TOLERANCE) {
+        errors.push(`Expected ${description} to have an aspect ratio (width / height) of ${options.aspectRatio}, but it is ${width}x${height} (${aspectRatio.toFixed(3)})`);
+      }
+    }
+  }
+
+  function getModule(type: string): any {
+    return require(path.resolve(contentSourceFolder, type));
+  }
+
   function getModuleDefaultOutput(type: string): any {
-    let modulePath = path.resolve(contentSourceFolder, type);
-    let mod = require(path.resolve(modulePath));
+    let mod = getModule(type);
     if (!mod.default) {
       fatalError(`Module at ${path.join(contentSourceFolder, type)} has no default export.`);
     }
     return mod.default();
   }
 
-  function writeJSONFile(content: any, type: string) {
+  function writeJSONFile(content: any, type: string, description = `output of ${type}.ts`) {
     let encoded = JSON.stringify(content, null, "  ");
     let outputFile = path.resolve(buildFolder, `${type}.json`);
     outputFile = path.resolve(outputFile);
     ensureParentDirExists(outputFile);
     fs.writeFileSync(outputFile, encoded, { encoding: "utf8" });
-    console.log(`Wrote output of ${type}.ts to "${nicePath(outputFile)}"`);
+    console.log(`Wrote ${description} to "${nicePath(outputFile)}"`);
   }
 
 }
@@ -185,6 +410,13 @@ export function buildContentCOmmand(contentSourceFolder: string, buildFolder: st
 
 
 
+/**
+ * The union of all content descriptor properties, since validation switches on the type
+ */
+interface SchemaItem extends sdk.ContentDescriptor<any>, sdk.ListOptions<SchemaItem>, sdk.GroupOptions<any>,
+  sdk.ImageOptions, sdk.TextOptions, sdk.NumberOptions, sdk.ColorOptions, sdk.ChoiceOptions, sdk.DateOptions {
+}
+
 function nicePath(p: string) {
   p = p.replace(path.resolve("."), "");
   if (p[0] === path.sep) {
@@ -5,10 +5,12 @@
 
 import buildContentCOmmand from "./build-content-command";
 import writeAppHtmlCommand from "./write-app-html-command";
+import simulateCommand from "./simulate-command";
+import layoutsCommand from "./layouts-command";
 import {fatalError, Command} from "./utils";
 require("typescript-require");
 
-const COMMANDS: Command[] = [buildContentCOmmand, writeAppHtmlCommand];
+const COMMANDS: Command[] = [buildContentCOmmand, writeAppHtmlCommand, simulateCommand, layoutsCommand];
 
 if (process.argv.length < 3) {
   usageError("Not enough arguments");
@@ -0,0 +1,65 @@
+/// <reference path="../../typings/index.d.ts" />
+
+import * as fs from "fs";
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Read the pixel dimensions of a PNG, JPEG or GIF file from its header, returning
+ * null if the file is not in one of these formats or is corrupt.
+ */
+export function readImageSize(file: string): ImageSize {
+  let data = fs.readFileSync(file);
+  return readPngSize(data) || readGifSize(data) || readJpegSize(data);
+}
+
+function readPngSize(data: Buffer): ImageSize {
+  const SIGNATURE = "89504e470d0a1a0a";
+  if (data.length < 24 || data.toString("hex", 0, 8) !== SIGNATURE || data.toString("ascii", 12, 16) !== "IHDR") {
+    return null;
+  }
+  return {
+    width: data.readUInt32BE(16),
+    height: data.readUInt32BE(20)
+  };
+}
+
+function readGifSize(data: Buffer): ImageSize {
+  if (data.length < 10 || !/^GIF8[79]a$/.test(data.toString("ascii", 0, 6))) {
+    return null;
+  }
+  return {
+    width: data.readUInt16LE(6),
+    height: data.readUInt16LE(8)
+  };
+}
+
+function readJpegSize(data: Buffer): ImageSize {
+  if (data.length < 4 || data[0] !== 0xFF || data[1] !== 0xD8) {
+    return null;
+  }
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xFF) {
+      return null;
+    }
+    let marker = data[offset + 1];
+    if (marker === 0xFF) {
+      // fill byte before a marker
+      offset++;
+      continue;
+    }
+    // SOF0 to SOF15 contain the frame size, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
+      return {
+        width: data.readUInt16BE(offset + 7),
+        height: data.readUInt16BE(offset + 5)
+      };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return null;
+}
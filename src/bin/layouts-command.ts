@@ -0,0 +1,86 @@
+/// <reference path="../../typings/index.d.ts" />
+
+import * as fs from "fs";
+import * as path from "path";
+import * as sdk from "../index";
+import {fatalError, Command} from "./utils";
+
+export default {
+  name: "layouts",
+  args: [
+    {
+      name: "LAYOUT_FOLDER",
+      doc: `The folder containing layout JSON files captured from real tables. Subfolders are searched too.`
+    }
+  ],
+  doc: `List and validate layout files. A valid layout file can be used in development mode or the simulator with the URL parameter ?layoutFile=path/to/file.json`,
+  func: layoutsCommand
+} as Command;
+
+function layoutsCommand(layoutFolder: string) {
+  if (!fs.existsSync(layoutFolder) || !fs.statSync(layoutFolder).isDirectory()) {
+    fatalError(`"${layoutFolder}" is not a folder`);
+  }
+  let files = findJSONFiles(layoutFolder);
+  let invalidCount = 0;
+  for (let file of files) {
+    let name = path.relative(layoutFolder, file);
+    let problems = validateLayoutFile(file);
+    if (problems.length > 0) {
+      invalidCount++;
+      console.log(`INVALID ${name}:\n  - ${problems.join("\n  - ")}`);
+    } else {
+      let layout: sdk.Layout = JSON.parse(fs.readFileSync(file, "utf8"));
+      console.log(`OK      ${name}: ${layout.widthPx}x${layout.heightPx}px, ${layout.plateSpots.length} plate spots, ${layout.contentAreas.length} content areas`);
+    }
+  }
+  console.log(`\nFound ${files.length} layout file${files.length === 1 ? "" : "s"} in "${layoutFolder}". Presets are also available with ?layout=NAME, e.g. ${sdk.LAYOUT_PRESETS.join(", ")}`);
+  if (invalidCount > 0) {
+    fatalError(`${invalidCount} layout file${invalidCount === 1 ? " is" : "s are"} invalid`);
+  }
+}
+
+function validateLayoutFile(file: string): string[] {
+  let layout: any;
+  try {
+    layout = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (e) {
+    return [`not a valid JSON file: ${e.message}`];
+  }
+  let problems = sdk.validateLayout(layout, "layout");
+  if (problems.length > 0) {
+    return problems;
+  }
+  validateShapes(layout.plateSpots, "circle", "layout.plateSpots");
+  validateShapes(layout.contentAreas, "rectangle", "layout.contentAreas");
+  return problems;
+
+  function validateShapes(shapes: (sdk.Circle | sdk.Rectangle)[], type: string, propName: string) {
+    let ids: number[] = [];
+    shapes.forEach((shape, i) => {
+      if (shape.type !== type) {
+        problems.push(`expected ${propName}[${i}].type to be "${type}", but it is "${shape.type}"`);
+      }
+      if (ids.indexOf(shape.id) !== -1) {
+        problems.push(`${propName}[${i}] has the id ${shape.id}, which is already used`);
+      }
+      ids.push(shape.id);
+      if (shape.x < 0 || shape.y < 0 || shape.x > layout.widthPx || shape.y > layout.heightPx) {
+        problems.push(`${propName}[${i}] is centred at (${shape.x}, ${shape.y}), which is outside the ${layout.widthPx}x${layout.heightPx}px table`);
+      }
+    });
+  }
+}
+
+function findJSONFiles(folder: string): string[] {
+  let results: string[] = [];
+  for (let name of fs.readdirSync(folder).sort()) {
+    let file = path.join(folder, name);
+    if (fs.statSync(file).isDirectory()) {
+      results.push(...findJSONFiles(file));
+    } else if (path.extname(name).toLowerCase() === ".json") {
+      results.push(file);
+    }
+  }
+  return results;
+}
@@ -0,0 +1,548 @@
+/// <reference path="../../typings/index.d.ts" />
+
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+import * as url from "url";
+import {fatalError, Command} from "./utils";
+
+const DEFAULT_PORT = 8090;
+
+const APP_PATH_PREFIX = "/app/";
+
+const SDK_BUNDLE_PATH = "/ordamo-v3-sdk.js";
+
+const MIME_TYPES: { [extension: string]: string } = {
+  "html": "text/html; charset=utf-8",
+  "js": "application/javascript; charset=utf-8",
+  "css": "text/css; charset=utf-8",
+  "json": "application/json; charset=utf-8",
+  "png": "image/png",
+  "jpg": "image/jpeg",
+  "jpeg": "image/jpeg",
+  "gif": "image/gif",
+  "svg": "image/svg+xml",
+  "mp4": "video/mp4",
+  "ogv": "video/ogg",
+  "webm": "video/webm",
+  "woff": "font/woff",
+  "woff2": "font/woff2",
+  "ttf": "font/ttf"
+};
+
+export default {
+  name: "simulate",
+  args: [
+    {
+      name: "BUILD_FOLDER",
+      doc: `The app's build output folder, containing index.html and the files generated by build-content.`
+    },
+    {
+      name: "PORT",
+      doc: `Optional, defaults to ${DEFAULT_PORT}. The port to run the simulator web server on.`,
+      optional: true
+    }
+  ],
+  doc: `Run a local simulation of the Ordamo application host. The app is loaded in an iframe and communicates with the simulator exactly as it would with a real table. Control the layout with URL parameters like so: ?plateSpots=4&contentAreas=2&rotation=0&table=1&sessionId=1&locale=fr,en, use a preset like ?layout=round4, or load a layout file from the build folder with ?layoutFile=tables/t12.json`,
+  func: simulateCommand,
+} as Command;
+
+function simulateCommand(buildFolder: string, port?: string) {
+  buildFolder = path.resolve(buildFolder);
+  let portNumber = port ? parseInt(port) : DEFAULT_PORT;
+  if (isNaN(portNumber)) {
+    fatalError(`PORT must be a number, got "${port}"`);
+  }
+  if (!fs.existsSync(path.join(buildFolder, "index.html"))) {
+    fatalError(`"${buildFolder}" does not contain an index.html file, is it the app's build folder?`);
+  }
+  for (let file of ["metadata.json", "default-content.json"]) {
+    if (!fs.existsSync(path.join(buildFolder, file))) {
+      fatalError(`"${buildFolder}" does not contain ${file}, run the build-content command first.`);
+    }
+  }
+
+  let server = http.createServer((request, response) => {
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(url.parse(request.url).pathname);
+    } catch (e) {
+      sendResponse(response, 400, "text/plain", Buffer.from(`Bad request, the URL is not valid: ${request.url}`, "utf8"));
+      return;
+    }
+    if (pathname === "/") {
+      sendResponse(response, 200, MIME_TYPES["html"], Buffer.from(getHostPageHtml(), "utf8"));
+    } else if (pathname === SDK_BUNDLE_PATH) {
+      sendResponse(response, 200, MIME_TYPES["js"], Buffer.from(getSdkBundle(), "utf8"));
+    } else if (pathname.indexOf(APP_PATH_PREFIX) === 0) {
+      serveStaticFile(response, buildFolder, pathname.slice(APP_PATH_PREFIX.length));
+    } else {
+      sendResponse(response, 404, "text/plain", Buffer.from(`Not found: ${pathname}`, "utf8"));
+    }
+  });
+
+  server.listen(portNumber, () => {
+    console.log(`Simulating the Ordamo application host for "${buildFolder}"`);
+    console.log(`Open http://localhost:${portNumber}/ in Google Chrome. Press Ctrl+C to stop.`);
+  });
+}
+
+function serveStaticFile(response: http.ServerResponse, rootFolder: string, relativePath: string) {
+  let file = path.resolve(rootFolder, relativePath || "index.html");
+  if (file !== rootFolder && file.indexOf(rootFolder + path.sep) !== 0) {
+    sendResponse(response, 403, "text/plain", Buffer.from(`Forbidden: ${relativePath}`, "utf8"));
+    return;
+  }
+  if (fs.existsSync(file) && fs.statSync(file).isDirectory()) {
+    file = path.join(file, "index.html");
+  }
+  if (!fs.existsSync(file)) {
+    sendResponse(response, 404, "text/plain", Buffer.from(`Not found: ${relativePath}`, "utf8"));
+    return;
+  }
+  let extension = path.extname(file).slice(1).toLowerCase();
+  sendResponse(response, 200, MIME_TYPES[extension] || "application/octet-stream", fs.readFileSync(file));
+}
+
+function sendResponse(response: http.ServerResponse, status: number, contentType: string, body: Buffer) {
+  response.writeHead(status, {
+    "Content-Type": contentType,
+    "Cache-Control": "no-cache"
+  });
+  response.end(body);
+}
+
+/**
+ * Wrap the compiled SDK modules in a minimal CommonJS loader so that the host page can use
+ * the same protocol implementation as real hosts, exposed as window.OrdamoV3SDK
+ */
+function getSdkBundle() {
+  let libFolder = path.resolve(__dirname, "..");
+  let modules = fs.readdirSync(libFolder)
+    .filter(file => path.extname(file) === ".js")
+    .map(file => {
+      let name = "./" + path.basename(file, ".js");
+      let source = fs.readFileSync(path.join(libFolder, file), "utf8");
+      return `factories[${JSON.stringify(name)}] = function (exports, require) {\n${source}\n};`;
+    });
+  return `(function () {
+var factories = {}, cache = {};
+${modules.join("\n")}
+function require(name) {
+    if (!cache[name]) {
+        cache[name] = {};
+        factories[name](cache[name], require);
+    }
+    return cache[name];
+}
+window.OrdamoV3SDK = require("./index");
+})();
+`;
+}
+
+function getHostPageHtml() {
+  return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <title>Ordamo V3 apphost simulator</title>
+    <style>
+    html, body { margin: 0; height: 100%; overflow: hidden; background: #222; font-family: sans-serif; color: #EEE; }
+    #stage { position: absolute; left: 0; top: 0; bottom: 0; right: 240px; background: #000; }
+    #stage iframe { position: absolute; width: 100%; height: 100%; border: none; visibility: hidden; }
+    #stage.ready iframe { visibility: visible; }
+    #stage.paused iframe { visibility: hidden; }
+    #overlay { position: absolute; width: 100%; height: 100%; }
+    .plate-spot { position: absolute; border-radius: 50%; background: radial-gradient(#FFF 60%, rgba(255, 255, 255, 0) 70%); pointer-events: none; }
+    body.fullscreen #stage { right: 0; z-index: 2; }
+    body.fullscreen #overlay { display: none; }
+    #sidebar { position: absolute; top: 0; bottom: 0; right: 0; width: 240px; overflow-y: auto; box-sizing: border-box; padding: 10px; font-size: 13px; }
+    #sidebar button { display: block; width: 100%; margin: 4px 0; padding: 6px; text-align: left; cursor: pointer; }
+    #sidebar button img { width: 32px; height: 32px; vertical-align: middle; margin-right: 8px; }
+    #menu .children { margin-left: 16px; }
+    #menu button { position: relative; }
+    #menu button.selected { outline: 2px solid #4AF; }
+    #menu button:disabled { opacity: 0.4; cursor: default; }
+    #menu .badge { position: absolute; left: 30px; top: 2px; padding: 1px 5px; border-radius: 8px; background: #D00; color: #FFF; font-size: 11px; }
+    #status { margin: 10px 0; white-space: pre-wrap; }
+    #analytics { margin-top: 10px; font-family: monospace; font-size: 11px; color: #AAA; }
+    #analytics div { margin: 2px 0; word-wrap: break-word; }
+    </style>
+</head>
+<body>
+<div id="stage"><iframe id="app"></iframe><div id="overlay"></div></div>
+<div id="sidebar">
+    <div id="status"></div>
+    <button id="relaunch">Relaunch app</button>
+    <button id="add-diner">Add a diner</button>
+    <button id="remove-diner">Remove a diner</button>
+    <button id="pause">Pause app</button>
+    <button id="save-state">Ask app to save state</button>
+    <div id="menu"></div>
+    <div id="analytics"></div>
+</div>
+<script src="${SDK_BUNDLE_PATH}"></script>
+<script>
+(function () {
+    "use strict";
+
+    var READY_TIMEOUT_SECONDS = 5;
+
+    var stage = document.getElementById("stage");
+    var iframe = document.getElementById("app");
+    var overlay = document.getElementById("overlay");
+    var menu = document.getElementById("menu");
+    var status = document.getElementById("status");
+    var analytics = document.getElementById("analytics");
+
+    var params = {}, badParams = [];
+    location.search.replace(/[?&]([^=]+)=([^&]*)?/g, function (match, name, value) {
+        try {
+            params[name] = decodeURIComponent(value || "");
+        } catch (e) {
+            badParams.push(name);
+        }
+    });
+
+    var sdk = window.OrdamoV3SDK;
+    var metadata, defaultContent, videoInfo, layout, host;
+    var numPlateSpots = intParam("plateSpots", 2);
+    var plateSpotsChanged = false;
+    var fileLayout = null;
+
+    function intParam(name, defaultValue) {
+        var value = parseInt(params[name]);
+        return isNaN(value) ? defaultValue : value;
+    }
+
+    function setStatus(message) {
+        status.textContent = message;
+        console.log("Simulator: " + message);
+    }
+
+    function loadJSON(file) {
+        return fetch("${APP_PATH_PREFIX}" + file, { cache: "no-cache" }).then(function (response) {
+            if (!response.ok) {
+                throw new Error("Failed to load " + file + ": " + response.status);
+            }
+            return response.json();
+        });
+    }
+
+    function makeLayout(width, height) {
+        if (fileLayout) {
+            return fileLayout;
+        }
+        if (params.layout) {
+            return sdk.makePresetLayout(params.layout, width, height, plateSpotsChanged ? numPlateSpots : undefined);
+        }
+        var options = sdk.parseGridLayoutParams(function (name) { return params[name]; });
+        options.plateSpots = numPlateSpots;
+        return sdk.makeGridLayout(width, height, options);
+    }
+
+    function renderPlateSpots() {
+        overlay.innerHTML = "";
+        layout.plateSpots.forEach(function (spot) {
+            var element = document.createElement("div");
+            element.className = "plate-spot";
+            element.style.left = (spot.x - spot.radius) + "px";
+            element.style.top = (spot.y - spot.radius) + "px";
+            element.style.width = element.style.height = (spot.radius * 2) + "px";
+            overlay.appendChild(element);
+        });
+    }
+
+    function changeLayout(plateSpotDelta) {
+        if (fileLayout) {
+            setStatus("Diners can't be added or removed when using a layout file.");
+            return;
+        }
+        numPlateSpots = Math.max(0, layout.plateSpots.length + plateSpotDelta);
+        plateSpotsChanged = true;
+        var rect = stage.getBoundingClientRect();
+        layout = makeLayout(Math.round(rect.width), Math.round(rect.height));
+        renderPlateSpots();
+        var state = host && host.getState();
+        if (state === "initialised" || state === "ready") {
+            host.sendLayout(layout);
+            setStatus("Sent layout message with " + numPlateSpots + " plate spots.");
+        }
+    }
+
+    function launchApp() {
+        if (host) {
+            host.destroy();
+        }
+        stage.classList.remove("ready");
+        document.body.classList.remove("fullscreen");
+        setPaused(false);
+        var rect = stage.getBoundingClientRect();
+        layout = makeLayout(Math.round(rect.width), Math.round(rect.height));
+        renderPlateSpots();
+        host = new sdk.OrdamoHost(iframe, {
+            readyTimeoutSeconds: READY_TIMEOUT_SECONDS,
+            onLoad: handleLoad,
+            onReady: handleReady,
+            onClose: handleClose,
+            onLaunchApp: handleLaunchApp,
+            onMenuChange: renderMenu,
+            menuNodes: metadata.menuNodes,
+            onStoreState: function (key, value) {
+                var stored = getStoredState();
+                if (value === null) {
+                    delete stored[key];
+                } else {
+                    stored[key] = value;
+                }
+                localStorage.setItem(getStoredStateKey(), JSON.stringify(stored));
+            },
+            onAnalytics: showAnalyticsEvents,
+            onTimeout: function (state) {
+                setStatus("WARNING: the app has been stuck in the " + state + " state for too long.");
+            },
+            onHang: function () {
+                setStatus("ERROR: the app has stopped sending heartbeats, it may have hung. A real table would restart it now.");
+            },
+            onError: function (error) {
+                setStatus("ERROR reported by the app (" + error.errorType + "): " + error.message + (error.location ? "\\nat " + error.location : ""));
+                if (error.stack) {
+                    console.error(error.stack);
+                }
+            },
+            onProtocolError: function (error, receivedMessage) {
+                setStatus("ERROR: " + error.message);
+                console.error(receivedMessage);
+            }
+        });
+        renderMenu(host.getMenuNodes());
+        setStatus("Loading " + metadata.id + " " + metadata.version + "...");
+        iframe.src = "${APP_PATH_PREFIX}index.html" + location.search;
+    }
+
+    var MAX_ANALYTICS_EVENTS_SHOWN = 50;
+    function showAnalyticsEvents(events) {
+        events.forEach(function (event) {
+            console.log("Simulator: analytics event", event);
+            var line = document.createElement("div");
+            line.textContent = new Date(event.timestamp).toLocaleTimeString() + " " + event.name + " " + JSON.stringify(event.properties);
+            analytics.insertBefore(line, analytics.firstChild);
+        });
+        while (analytics.childNodes.length > MAX_ANALYTICS_EVENTS_SHOWN) {
+            analytics.removeChild(analytics.lastChild);
+        }
+    }
+
+    // state stored by apps using "host" state storage, kept in the simulator's localStorage
+    function getStoredStateKey() {
+        return "ordamo-simulator-stored-state-" + metadata.id + "-" + (params.table || "1");
+    }
+
+    function getStoredState() {
+        try {
+            return JSON.parse(localStorage.getItem(getStoredStateKey())) || {};
+        } catch (e) {
+            return {};
+        }
+    }
+
+    function handleLoad(message) {
+        document.body.classList.toggle("fullscreen", !!message.fullscreen);
+        host.sendInit({
+            eventType: "init",
+            content: defaultContent,
+            layout: layout,
+            table: params.table || "1",
+            version: metadata.version,
+            sessionId: intParam("sessionId", 1),
+            requiredWidth: metadata.requiredWidth,
+            requiredHeight: metadata.requiredHeight,
+            locales: params.locale ? params.locale.split(",") : metadata.locales,
+            storedState: getStoredState(),
+            launchParams: jsonParam("launchParams"),
+            videoInfo: videoInfo
+        });
+        setStatus("Sent init message (" + (message.fullscreen ? "fullscreen" : "background") + " app), waiting for ready message...");
+    }
+
+    function handleReady() {
+        stage.classList.add("ready");
+        setStatus("App is ready.");
+    }
+
+    function handleClose(result) {
+        stage.classList.remove("ready");
+        document.body.classList.remove("fullscreen");
+        iframe.src = "about:blank";
+        setStatus("The app has been closed. On a real table, the diners would now be seeing the main menu." +
+            (result !== null ? " It returned the result " + JSON.stringify(result) + " for the app that launched it." : ""));
+    }
+
+    function handleLaunchApp(appId, launchParams) {
+        setStatus("The app asked to launch the app " + appId + " with the parameters " + JSON.stringify(launchParams) +
+            ". The simulator can only host one app, so simulate that app with ?launchParams=" + encodeURIComponent(JSON.stringify(launchParams)) + " to test it.");
+    }
+
+    function jsonParam(name) {
+        try {
+            return params[name] ? JSON.parse(params[name]) : null;
+        } catch (e) {
+            setStatus("ERROR: the " + name + " URL parameter is not valid JSON.");
+            return null;
+        }
+    }
+
+    var paused = false;
+    function togglePause() {
+        if (!isReady()) {
+            return;
+        }
+        if (paused) {
+            host.sendResume();
+        } else {
+            host.sendPause();
+        }
+        setPaused(!paused);
+        setStatus(paused ? "Sent pause message, the app is hidden." : "Sent resume message.");
+    }
+
+    function setPaused(value) {
+        paused = value;
+        stage.classList.toggle("paused", paused);
+        document.getElementById("pause").textContent = paused ? "Resume app" : "Pause app";
+    }
+
+    function isReady() {
+        return host && host.getState() === "ready";
+    }
+
+    function sendInteraction(touchEvent) {
+        if (isReady()) {
+            host.sendInteractions([sdk.makeCrossWindowTouchEvent(touchEvent, iframe.getBoundingClientRect())]);
+        }
+    }
+
+    // the mouse emulates touches on the table, with the same multi-touch modifier keys as apps
+    // in development mode
+    sdk.startTouchEventEmulation(overlay);
+
+    ["touchstart", "touchmove", "touchend", "touchcancel"].forEach(function (type) {
+        overlay.addEventListener(type, function (event) {
+            event.preventDefault();
+            sendInteraction(event);
+        });
+    });
+
+    // the menu is redrawn whenever the app changes it, so remember which nodes were open
+    var openMenuNodes = {};
+    function renderMenu(nodes) {
+        menu.innerHTML = "";
+        renderMenuNodes(nodes, menu, "");
+    }
+
+    function renderMenuNodes(nodes, container, parentKey) {
+        (nodes || []).forEach(function (node, i) {
+            if (node.hidden) {
+                return;
+            }
+            var key = node.id || parentKey + "/" + i;
+            var button = document.createElement("button");
+            var icon = document.createElement("img");
+            var iconSrc = node.iconSrc || metadata.defaultIconSrc;
+            icon.src = iconSrc.indexOf("data:") === 0 ? iconSrc : "${APP_PATH_PREFIX}" + iconSrc;
+            button.appendChild(icon);
+            button.appendChild(document.createTextNode(node.navigateButtonId || node.launchAppId || node.id || ""));
+            if (node.badge) {
+                var badge = document.createElement("span");
+                badge.className = "badge";
+                badge.textContent = node.badge;
+                button.appendChild(badge);
+            }
+            button.disabled = node.enabled === false;
+            button.classList.toggle("selected", !!node.selected);
+            container.appendChild(button);
+
+            var children = document.createElement("div");
+            children.className = "children";
+            children.style.display = openMenuNodes[key] ? "" : "none";
+            renderMenuNodes(node.children, children, key);
+            container.appendChild(children);
+
+            button.addEventListener("click", function () {
+                if (node.children) {
+                    openMenuNodes[key] = !openMenuNodes[key];
+                    children.style.display = openMenuNodes[key] ? "" : "none";
+                }
+                if (node.navigateButtonId) {
+                    if (isReady()) {
+                        host.sendNavigate(node.navigateButtonId);
+                        setStatus("Sent navigate message: " + node.navigateButtonId);
+                    } else {
+                        setStatus("Can't navigate to " + node.navigateButtonId + ", the app is not ready.");
+                    }
+                }
+                if (node.launchAppId) {
+                    handleLaunchApp(node.launchAppId, node.launchParams === undefined ? null : node.launchParams);
+                }
+                if (node.closeMenu) {
+                    menu.querySelectorAll(".children").forEach(function (element) {
+                        element.style.display = "none";
+                    });
+                    openMenuNodes = {};
+                }
+            });
+        });
+    }
+
+    document.getElementById("relaunch").addEventListener("click", launchApp);
+    document.getElementById("pause").addEventListener("click", togglePause);
+    document.getElementById("save-state").addEventListener("click", function () {
+        if (isReady()) {
+            host.sendSaveState();
+            setStatus("Sent saveState message.");
+        }
+    });
+    document.getElementById("add-diner").addEventListener("click", function () { changeLayout(1); });
+    document.getElementById("remove-diner").addEventListener("click", function () { changeLayout(-1); });
+
+    function loadLayoutFile() {
+        if (!params.layoutFile) {
+            return null;
+        }
+        return loadJSON(params.layoutFile).then(function (loaded) {
+            var problems = sdk.validateLayout(loaded, params.layoutFile);
+            if (problems.length > 0) {
+                throw new Error("Invalid layout file:\\n  - " + problems.join("\\n  - "));
+            }
+            return loaded;
+        });
+    }
+
+    if (badParams.length > 0) {
+        setStatus("ERROR: the URL parameters " + badParams.join(", ") + " are not validly encoded.");
+        return;
+    }
+
+    if (params.layout && !sdk.isLayoutPreset(params.layout)) {
+        setStatus("ERROR: layout=" + params.layout + " is not a layout preset, try one of " + sdk.LAYOUT_PRESETS.join(", "));
+        return;
+    }
+
+    // builds made before video-info.json was added don't have it
+    var loadVideoInfo = loadJSON("video-info.json").catch(function () { return {}; });
+
+    Promise.all([loadJSON("metadata.json"), loadJSON("default-content.json"), loadLayoutFile(), loadVideoInfo]).then(function (results) {
+        metadata = results[0];
+        defaultContent = results[1];
+        fileLayout = results[2];
+        videoInfo = results[3];
+        launchApp();
+    }).catch(function (e) {
+        setStatus("ERROR: " + e.message);
+    });
+})();
+</script>
+</body>
+</html>
+`;
+}
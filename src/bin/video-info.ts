@@ -0,0 +1,413 @@
+/// <reference path="../../typings/index.d.ts" />
+
+import * as fs from "fs";
+import {VideoInfo} from "../index";
+
+/**
+ * Codecs that Chrome can play, by container. MP4 codecs are sample entry types, WebM
+ * codecs are Matroska codec IDs, and Ogg codecs are the name in the stream's
+ * identification header.
+ */
+export const PLAYABLE_CODECS: { [container: string]: string[] } = {
+  "mp4": ["avc1", "avc3", "vp09", "av01"],
+  "webm": ["V_VP8", "V_VP9", "V_AV1"],
+  "ogg": ["theora"]
+};
+
+/**
+ * Read the dimensions, duration and codec of the first video track in an MP4, WebM or
+ * Ogg file from its container headers. Returns null if the file is not in one of these
+ * formats, is corrupt, or has no video track.
+ *
+ * Only the headers are read, so this is fast even for large files.
+ */
+export function readVideoInfo(file: string): VideoInfo {
+  let fd = fs.openSync(file, "r");
+  try {
+    let reader = new HeaderReader(fd, fs.fstatSync(fd).size);
+    if (reader.size >= 8 && reader.read(4, 4).toString("ascii") === "ftyp") {
+      return readMp4Info(reader);
+    }
+    if (reader.size >= 4 && reader.read(0, 4).readUInt32BE(0) === EBML_ID) {
+      return readWebmInfo(reader);
+    }
+    if (reader.size >= 4 && reader.read(0, 4).toString("ascii") === OGG_CAPTURE_PATTERN) {
+      return readOggInfo(reader);
+    }
+    return null;
+  } catch (e) {
+    if (e instanceof CorruptFileError) {
+      return null;
+    }
+    throw e;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Thrown when a file's headers don't make sense, and caught by readVideoInfo
+ */
+class CorruptFileError {
+}
+
+class HeaderReader {
+  constructor(private _fd: number, public size: number) {
+  }
+
+  read(position: number, length: number): Buffer {
+    if (position < 0 || length < 0 || position + length > this.size) {
+      throw new CorruptFileError();
+    }
+    let buffer = Buffer.alloc(length);
+    fs.readSync(this._fd, buffer, 0, length, position);
+    return buffer;
+  }
+}
+
+function readUInt(buffer: Buffer, offset: number, length: number): number {
+  let value = 0;
+  for (let i = 0; i < length; i++) {
+    value = value * 256 + buffer[offset + i];
+  }
+  return value;
+}
+
+
+//
+// MP4 - an ISO base media file, made of nested boxes with a 4 character type
+//
+
+const MP4_CONTAINER_BOXES = ["moov", "trak", "mdia", "minf", "stbl"];
+
+/**
+ * The length of a visual sample entry up to the end of its width and height fields
+ */
+const MP4_VISUAL_SAMPLE_ENTRY_SIZE = 36;
+
+interface Mp4Track {
+  handler?: string;
+  codec?: string;
+  width?: number;
+  height?: number;
+}
+
+function readMp4Info(reader: HeaderReader): VideoInfo {
+  let timescale = 0, duration = 0;
+  let tracks: Mp4Track[] = [];
+
+  readBoxes(0, reader.size);
+
+  let video = tracks.filter(track => track.handler === "vide")[0];
+  if (!video || !timescale) {
+    return null;
+  }
+  return {
+    container: "mp4",
+    codec: video.codec,
+    width: video.width,
+    height: video.height,
+    durationSeconds: duration / timescale
+  };
+
+  function readBoxes(start: number, end: number) {
+    let offset = start;
+    while (offset + 8 <= end) {
+      let header = reader.read(offset, 8);
+      let size = header.readUInt32BE(0);
+      let type = header.toString("ascii", 4, 8);
+      let headerSize = 8;
+      if (size === 1) {
+        size = readUInt(reader.read(offset + 8, 8), 0, 8);
+        headerSize = 16;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+      if (size < headerSize || offset + size > end) {
+        throw new CorruptFileError();
+      }
+      let bodyStart = offset + headerSize;
+      if (type === "trak") {
+        tracks.push({});
+      }
+      if (MP4_CONTAINER_BOXES.indexOf(type) !== -1) {
+        readBoxes(bodyStart, offset + size);
+      } else if (type === "mvhd") {
+        let version = reader.read(bodyStart, 1)[0];
+        let body = reader.read(bodyStart, version === 1 ? 32 : 20);
+        if (version === 1) {
+          timescale = body.readUInt32BE(20);
+          duration = readUInt(body, 24, 8);
+        } else {
+          timescale = body.readUInt32BE(12);
+          duration = body.readUInt32BE(16);
+        }
+      } else if (type === "hdlr" && tracks.length) {
+        tracks[tracks.length - 1].handler = reader.read(bodyStart + 8, 4).toString("ascii");
+      } else if (type === "stsd" && tracks.length) {
+        let track = tracks[tracks.length - 1];
+        // the first sample entry's type is the codec
+        track.codec = reader.read(bodyStart + 12, 4).toString("ascii");
+        if (track.handler === "vide") {
+          // a visual sample entry holds the coded size in pixels. The tkhd box has a size
+          // too, but that is the display size, which may be scaled.
+          let entry = reader.read(bodyStart + 8, MP4_VISUAL_SAMPLE_ENTRY_SIZE);
+          track.width = entry.readUInt16BE(32);
+          track.height = entry.readUInt16BE(34);
+        }
+      }
+      offset += size;
+    }
+  }
+}
+
+
+//
+// WEBM - a Matroska file, made of nested EBML elements with variable length IDs and sizes
+//
+
+const EBML_ID = 0x1A45DFA3;
+const SEGMENT_ID = 0x18538067;
+const INFO_ID = 0x1549A966;
+const TIMECODE_SCALE_ID = 0x2AD7B1;
+const DURATION_ID = 0x4489;
+const TRACKS_ID = 0x1654AE6B;
+const TRACK_ENTRY_ID = 0xAE;
+const TRACK_TYPE_ID = 0x83;
+const CODEC_ID_ID = 0x86;
+const VIDEO_ID = 0xE0;
+const PIXEL_WIDTH_ID = 0xB0;
+const PIXEL_HEIGHT_ID = 0xBA;
+const CLUSTER_ID = 0x1F43B675;
+
+const WEBM_CONTAINER_ELEMENTS = [SEGMENT_ID, INFO_ID, TRACKS_ID, TRACK_ENTRY_ID, VIDEO_ID];
+
+const VIDEO_TRACK_TYPE = 1;
+
+interface WebmTrack {
+  type?: number;
+  codec?: string;
+  width?: number;
+  height?: number;
+}
+
+function readWebmInfo(reader: HeaderReader): VideoInfo {
+  let timecodeScale = 1000000, duration = 0;
+  let tracks: WebmTrack[] = [];
+
+  readElements(0, reader.size);
+
+  let video = tracks.filter(track => track.type === VIDEO_TRACK_TYPE)[0];
+  if (!video) {
+    return null;
+  }
+  return {
+    container: "webm",
+    codec: video.codec,
+    width: video.width,
+    height: video.height,
+    durationSeconds: duration * timecodeScale / 1e9
+  };
+
+  /**
+   * Read elements until the first cluster, which marks the start of the media data
+   */
+  function readElements(start: number, end: number): boolean {
+    let offset = start;
+    while (offset < end) {
+      let id = readVint(offset, false);
+      let size = readVint(offset + id.length, true);
+      let bodyStart = offset + id.length + size.length;
+      let bodyEnd = size.value === null ? end : Math.min(bodyStart + size.value, end);
+      if (id.value === CLUSTER_ID) {
+        return false;
+      }
+      if (id.value === TRACK_ENTRY_ID) {
+        tracks.push({});
+      }
+      let track = tracks[tracks.length - 1];
+      if (WEBM_CONTAINER_ELEMENTS.indexOf(id.value) !== -1) {
+        if (!readElements(bodyStart, bodyEnd)) {
+          return false;
+        }
+      } else if (id.value === TIMECODE_SCALE_ID) {
+        timecodeScale = readUInt(reader.read(bodyStart, size.value), 0, size.value);
+      } else if (id.value === DURATION_ID) {
+        if (size.value !== 4 && size.value !== 8) {
+          throw new CorruptFileError();
+        }
+        let body = reader.read(bodyStart, size.value);
+        duration = size.value === 4 ? body.readFloatBE(0) : body.readDoubleBE(0);
+      } else if (track && id.value === TRACK_TYPE_ID) {
+        track.type = readUInt(reader.read(bodyStart, size.value), 0, size.value);
+      } else if (track && id.value === CODEC_ID_ID) {
+        track.codec = reader.read(bodyStart, size.value).toString("ascii").replace(/\0+$/, "");
+      } else if (track && id.value === PIXEL_WIDTH_ID) {
+        track.width = readUInt(reader.read(bodyStart, size.value), 0, size.value);
+      } else if (track && id.value === PIXEL_HEIGHT_ID) {
+        track.height = readUInt(reader.read(bodyStart, size.value), 0, size.value);
+      }
+      offset = bodyEnd;
+    }
+    return true;
+  }
+
+  /**
+   * Read a variable length integer. IDs keep their length marker bit, sizes don't, and
+   * a size with all value bits set means "unknown", returned as null.
+   */
+  function readVint(offset: number, isSize: boolean): { value: number, length: number } {
+    let first = reader.read(offset, 1)[0];
+    let length = 1;
+    while (length <= 8 && !(first & (0x80 >> (length - 1)))) {
+      length++;
+    }
+    if (length > 8) {
+      throw new CorruptFileError();
+    }
+    let bytes = reader.read(offset, length);
+    if (!isSize) {
+      return { value: readUInt(bytes, 0, length), length };
+    }
+    let value = first & (0xFF >> length);
+    let allOnes = value === (0xFF >> length);
+    for (let i = 1; i < length; i++) {
+      value = value * 256 + bytes[i];
+      allOnes = allOnes && bytes[i] === 0xFF;
+    }
+    return { value: allOnes ? null : value, length };
+  }
+}
+
+
+//
+// OGG - a sequence of pages, each carrying packets from one or more logical streams. The
+// first page of each stream holds its identification header, and the last page's granule
+// position gives the stream's length.
+//
+
+const OGG_CAPTURE_PATTERN = "OggS";
+const OGG_PAGE_HEADER_SIZE = 27;
+const OGG_BEGINNING_OF_STREAM = 0x02;
+const OGG_MAX_PAGE_SIZE = 65307;
+
+const THEORA_ID_HEADER_SIGNATURE = "\x80theora";
+const THEORA_ID_HEADER_SIZE = 42;
+
+interface OggPage {
+  headerType: number;
+  granulePosition: number;
+  serialNumber: number;
+  dataStart: number;
+  size: number;
+}
+
+function readOggInfo(reader: HeaderReader): VideoInfo {
+  let offset = 0;
+  let theora: { serialNumber: number, header: Buffer } = null;
+
+  // every stream's first page comes before any other page
+  while (!theora && offset < reader.size) {
+    let page = readOggPage(reader, offset);
+    if (!(page.headerType & OGG_BEGINNING_OF_STREAM)) {
+      break;
+    }
+    if (page.size - (page.dataStart - offset) >= THEORA_ID_HEADER_SIZE) {
+      let header = reader.read(page.dataStart, THEORA_ID_HEADER_SIZE);
+      if (header.toString("binary", 0, 7) === THEORA_ID_HEADER_SIGNATURE) {
+        theora = { serialNumber: page.serialNumber, header };
+      }
+    }
+    offset += page.size;
+  }
+  if (!theora) {
+    return null;
+  }
+
+  let header = theora.header;
+  let versionRevision = header[9];
+  let frameRateNumerator = header.readUInt32BE(22);
+  let frameRateDenominator = header.readUInt32BE(26);
+  let keyframeGranuleShift = ((header[40] & 0x03) << 3) | (header[41] >> 5);
+  if (!frameRateNumerator || !frameRateDenominator) {
+    throw new CorruptFileError();
+  }
+
+  // the granule position of a Theora page packs the last keyframe's number and the
+  // number of frames since it
+  let frames = 0;
+  let granulePosition = findLastGranulePosition(reader, theora.serialNumber);
+  if (granulePosition !== null) {
+    let shift = Math.pow(2, keyframeGranuleShift);
+    frames = Math.floor(granulePosition / shift) + granulePosition % shift;
+    // before version 3.2.1, frames were numbered from 0 rather than 1
+    if (versionRevision < 1) {
+      frames++;
+    }
+  }
+
+  return {
+    container: "ogg",
+    codec: "theora",
+    // the picture region, which is the visible part of the coded frame
+    width: readUInt(header, 14, 3),
+    height: readUInt(header, 17, 3),
+    durationSeconds: frames * frameRateDenominator / frameRateNumerator
+  };
+}
+
+function readOggPage(reader: HeaderReader, offset: number): OggPage {
+  let header = reader.read(offset, OGG_PAGE_HEADER_SIZE);
+  if (header.toString("ascii", 0, 4) !== OGG_CAPTURE_PATTERN || header[4] !== 0) {
+    throw new CorruptFileError();
+  }
+  let segmentCount = header[26];
+  let segments = reader.read(offset + OGG_PAGE_HEADER_SIZE, segmentCount);
+  let dataSize = 0;
+  for (let i = 0; i < segmentCount; i++) {
+    dataSize += segments[i];
+  }
+  let dataStart = offset + OGG_PAGE_HEADER_SIZE + segmentCount;
+  return {
+    headerType: header[5],
+    granulePosition: readGranulePosition(header, 6),
+    serialNumber: header.readUInt32LE(14),
+    dataStart,
+    size: dataStart + dataSize - offset
+  };
+}
+
+/**
+ * Read a little endian 64 bit granule position, or null for -1, which marks a page on
+ * which no packet ends
+ */
+function readGranulePosition(buffer: Buffer, offset: number): number {
+  let low = buffer.readUInt32LE(offset);
+  let high = buffer.readUInt32LE(offset + 4);
+  if (low === 0xFFFFFFFF && high === 0xFFFFFFFF) {
+    return null;
+  }
+  return high * 0x100000000 + low;
+}
+
+/**
+ * Return the granule position of a stream's last page, searching backwards from the end
+ * of the file, or null if there is none
+ */
+function findLastGranulePosition(reader: HeaderReader, serialNumber: number): number {
+  let start = Math.max(0, reader.size - OGG_MAX_PAGE_SIZE * 2);
+  let tail = reader.read(start, reader.size - start);
+  let text = tail.toString("binary");
+  let offset = text.lastIndexOf(OGG_CAPTURE_PATTERN);
+  while (offset !== -1) {
+    if (offset + OGG_PAGE_HEADER_SIZE <= tail.length && tail[offset + 4] === 0
+      && tail.readUInt32LE(offset + 14) === serialNumber) {
+      let granulePosition = readGranulePosition(tail, offset + 6);
+      if (granulePosition !== null) {
+        return granulePosition;
+      }
+    }
+    offset = offset > 0 ? text.lastIndexOf(OGG_CAPTURE_PATTERN, offset - 1) : -1;
+  }
+  return null;
+}
@@ -0,0 +1,221 @@
+"use strict";
+
+import {
+  Circle,
+  CrossWindowTouch,
+  CrossWindowTouchEvent,
+  Layout,
+  Rectangle
+} from "./protocol";
+
+/**
+ * A position or direction in pixels. In table space the origin is the top left of the
+ * table and y increases downwards, like clientX and clientY.
+ */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Any of the geometry functions that take a point also accept a touch, whose clientX and
+ * clientY are used
+ */
+export type PointOrTouch = Point | CrossWindowTouch;
+
+/**
+ * A plate spot or content area
+ */
+export type LayoutShape = Circle | Rectangle;
+
+/**
+ * The differences between two layouts, see diffLayouts()
+ */
+export interface LayoutDiff {
+  addedPlateSpots: Circle[];
+  removedPlateSpots: Circle[];
+  /**
+   * Plate spots that have moved, been resized or rotated, as they are in the new layout
+   */
+  movedPlateSpots: Circle[];
+  addedContentAreas: Rectangle[];
+  removedContentAreas: Rectangle[];
+  /**
+   * Content areas that have moved, been resized or rotated, as they are in the new layout
+   */
+  movedContentAreas: Rectangle[];
+}
+
+/**
+ * Convert a point in table space into the local frame of a plate spot or content area.
+ * The local origin is the centre of the shape, and the axes are rotated so that positive
+ * y points towards the diner and negative y points "up" from their point of view.
+ */
+export function toLocal(point: PointOrTouch, shape: LayoutShape): Point {
+  let p = toPoint(point);
+  let radians = toRadians(shape.rotationDegrees);
+  let cos = Math.cos(radians), sin = Math.sin(radians);
+  let dx = p.x - shape.x, dy = p.y - shape.y;
+  return {
+    x: dx * cos + dy * sin,
+    y: -dx * sin + dy * cos
+  };
+}
+
+/**
+ * Convert a point in the local frame of a plate spot or content area back into table
+ * space, the inverse of toLocal()
+ */
+export function fromLocal(point: Point, shape: LayoutShape): Point {
+  let radians = toRadians(shape.rotationDegrees);
+  let cos = Math.cos(radians), sin = Math.sin(radians);
+  return {
+    x: shape.x + point.x * cos - point.y * sin,
+    y: shape.y + point.x * sin + point.y * cos
+  };
+}
+
+/**
+ * Return true if a point in table space is inside a plate spot or content area. Points
+ * on the edge are inside.
+ */
+export function containsPoint(shape: LayoutShape, point: PointOrTouch): boolean {
+  let local = toLocal(point, shape);
+  if (shape.type === "circle") {
+    return length(local) <= (shape as Circle).radius;
+  }
+  let rectangle = shape as Rectangle;
+  return Math.abs(local.x) <= rectangle.width / 2 && Math.abs(local.y) <= rectangle.height / 2;
+}
+
+/**
+ * Return the plate spot containing a point, or null if it is not on a plate spot
+ */
+export function findPlateSpotAt(layout: Layout, point: PointOrTouch): Circle {
+  return layout.plateSpots.filter(plateSpot => containsPoint(plateSpot, point))[0] || null;
+}
+
+/**
+ * Return the content area containing a point, or null if it is not in a content area
+ */
+export function findContentAreaAt(layout: Layout, point: PointOrTouch): Rectangle {
+  return layout.contentAreas.filter(contentArea => containsPoint(contentArea, point))[0] || null;
+}
+
+/**
+ * Return the plate spot whose centre is closest to a point, which is usually the diner
+ * that the point is closest to. Returns null if the layout has no plate spots.
+ */
+export function findNearestPlateSpot(layout: Layout, point: PointOrTouch): Circle {
+  let p = toPoint(point);
+  let nearest: Circle = null, nearestDistance = Infinity;
+  for (let plateSpot of layout.plateSpots) {
+    let d = distance(p, plateSpot);
+    if (d < nearestDistance) {
+      nearest = plateSpot;
+      nearestDistance = d;
+    }
+  }
+  return nearest;
+}
+
+/**
+ * Return a unit vector in table space pointing "up" from the point of view of the diner
+ * that a plate spot or content area is oriented towards, i.e. away from the diner.
+ */
+export function getUpDirection(shape: LayoutShape): Point {
+  let radians = toRadians(shape.rotationDegrees);
+  return {
+    x: Math.sin(radians),
+    y: -Math.cos(radians)
+  };
+}
+
+/**
+ * Return a copy of a touch with the ids of the plate spot and content area that it is in,
+ * and the plate spot that it is nearest to, see CrossWindowTouch
+ */
+export function attributeTouch(layout: Layout, touch: CrossWindowTouch): CrossWindowTouch {
+  let plateSpot = findPlateSpotAt(layout, touch);
+  let contentArea = findContentAreaAt(layout, touch);
+  let nearestPlateSpot = findNearestPlateSpot(layout, touch);
+  return Object.assign({}, touch, {
+    plateSpotId: plateSpot ? plateSpot.id : undefined,
+    contentAreaId: contentArea ? contentArea.id : undefined,
+    nearestPlateSpotId: nearestPlateSpot ? nearestPlateSpot.id : undefined
+  });
+}
+
+/**
+ * Return a copy of a touch event with every touch passed through attributeTouch()
+ */
+export function attributeTouchEvent(layout: Layout, touchEvent: CrossWindowTouchEvent): CrossWindowTouchEvent {
+  return Object.assign({}, touchEvent, {
+    touches: touchEvent.touches.map(touch => attributeTouch(layout, touch)),
+    changedTouches: touchEvent.changedTouches.map(touch => attributeTouch(layout, touch))
+  });
+}
+
+/**
+ * Compare two layouts, matching plate spots and content areas by their id
+ */
+export function diffLayouts(oldLayout: Layout, newLayout: Layout): LayoutDiff {
+  let plateSpots = diffShapes(oldLayout.plateSpots, newLayout.plateSpots);
+  let contentAreas = diffShapes(oldLayout.contentAreas, newLayout.contentAreas);
+  return {
+    addedPlateSpots: plateSpots.added,
+    removedPlateSpots: plateSpots.removed,
+    movedPlateSpots: plateSpots.moved,
+    addedContentAreas: contentAreas.added,
+    removedContentAreas: contentAreas.removed,
+    movedContentAreas: contentAreas.moved
+  };
+}
+
+/**
+ * Return true if a layout diff contains no changes
+ */
+export function isEmptyLayoutDiff(diff: LayoutDiff): boolean {
+  return Object.keys(diff).every(key => (diff as any)[key].length === 0);
+}
+
+/**
+ * Return the distance in pixels between two points
+ */
+export function distance(a: PointOrTouch, b: PointOrTouch): number {
+  let p = toPoint(a), q = toPoint(b);
+  return length({ x: q.x - p.x, y: q.y - p.y });
+}
+
+/**
+ * Return a point or touch as a Point
+ */
+export function toPoint(point: PointOrTouch): Point {
+  let touch = point as CrossWindowTouch;
+  if (typeof touch.clientX === "number") {
+    return { x: touch.clientX, y: touch.clientY };
+  }
+  return point as Point;
+}
+
+const SHAPE_PROPERTIES = ["x", "y", "radius", "borderWidth", "width", "height", "rotationDegrees"];
+
+function diffShapes<S extends Circle | Rectangle>(oldShapes: S[], newShapes: S[]) {
+  let findById = (shapes: S[], id: number) => shapes.filter(shape => shape.id === id)[0];
+  return {
+    added: newShapes.filter(shape => !findById(oldShapes, shape.id)),
+    removed: oldShapes.filter(shape => !findById(newShapes, shape.id)),
+    moved: newShapes.filter(shape => {
+      let oldShape = findById(oldShapes, shape.id);
+      return oldShape && SHAPE_PROPERTIES.some(prop => (oldShape as any)[prop] !== (shape as any)[prop]);
+    })
+  };
+}
+
+function length(vector: Point): number {
+  return Math.sqrt(vector.x * vector.x + vector.y * vector.y);
+}
+
+function toRadians(degrees: number): number {
+  return (degrees || 0) * Math.PI / 180;
+}
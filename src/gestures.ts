@@ -0,0 +1,388 @@
+"use strict";
+
+import {
+  CommonTouchEvent,
+  CrossWindowTouch,
+  Layout
+} from "./protocol";
+
+import {
+  Point,
+  distance,
+  findNearestPlateSpot,
+  toLocal
+} from "./geometry";
+
+export type GestureType = "tap" | "doubletap" | "longpress" | "swipe" | "pinch" | "rotate";
+
+/**
+ * The direction of a swipe from the point of view of the diner nearest to where it
+ * started, so "up" is always away from that diner
+ */
+export type SwipeDirection = "up" | "down" | "left" | "right";
+
+export interface Gesture {
+  type: GestureType;
+  /**
+   * The position of the gesture in table space: where the finger went down for taps, long
+   * presses and swipes, and the midpoint of the two fingers for pinches and rotations
+   */
+  x: number;
+  y: number;
+  /**
+   * The id of the plate spot of the diner nearest to the gesture, or undefined if the
+   * layout has no plate spots
+   */
+  plateSpotId: number;
+  /**
+   * For swipes, the direction relative to the diner
+   */
+  direction?: SwipeDirection;
+  /**
+   * For swipes, the distance travelled in centimetres
+   */
+  distanceCm?: number;
+  /**
+   * For pinches, the distance between the fingers divided by the distance when the
+   * second finger went down, so greater than 1 when the fingers are moving apart
+   */
+  scale?: number;
+  /**
+   * For rotations, the angle in degrees that the fingers have turned clockwise since the
+   * second finger went down
+   */
+  rotationDegrees?: number;
+}
+
+export interface GestureRecognizerOptions {
+  /**
+   * Required. The layout of the table, used to convert thresholds from centimetres into
+   * pixels and to find the diner that performed each gesture
+   */
+  layout: Layout;
+
+  /**
+   * Required. A function called when a gesture is recognised. Pinch and rotate are called
+   * repeatedly as the fingers move.
+   */
+  onGesture: (gesture: Gesture) => void;
+
+  /**
+   * The distance a finger may move and still count as a tap or long press, defaults to 1cm
+   */
+  tapMaxMovementCm?: number;
+
+  /**
+   * The longest a finger may be down for a tap, defaults to 0.3 seconds
+   */
+  tapMaxSeconds?: number;
+
+  /**
+   * The longest time between two taps for them to count as a double tap, defaults
+   * to 0.3 seconds
+   */
+  doubleTapMaxSeconds?: number;
+
+  /**
+   * The furthest apart two taps may be to count as a double tap, defaults to 2cm
+   */
+  doubleTapMaxDistanceCm?: number;
+
+  /**
+   * The time a finger must be held still for a long press, defaults to 0.6 seconds
+   */
+  longPressSeconds?: number;
+
+  /**
+   * The shortest distance that counts as a swipe, defaults to 3cm
+   */
+  swipeMinDistanceCm?: number;
+
+  /**
+   * The longest a swipe may take, defaults to 0.5 seconds
+   */
+  swipeMaxSeconds?: number;
+
+  /**
+   * The distance that the gap between two fingers must change by before a pinch is
+   * recognised, defaults to 1cm
+   */
+  pinchMinDistanceCm?: number;
+
+  /**
+   * The angle that two fingers must turn through before a rotation is recognised,
+   * defaults to 10 degrees
+   */
+  rotateMinDegrees?: number;
+
+  /**
+   * Return the current time in milliseconds, defaults to Date.now.
+   * OrdamoSDK.createGestureRecognizer() sets this and setTimeout to the SDK's clock, so
+   * that the test harness's advanceTime() controls gesture timing.
+   */
+  now?: () => number;
+
+  /**
+   * Call a function after a number of milliseconds, defaults to window.setTimeout
+   */
+  setTimeout?: (callback: () => void, milliseconds: number) => void;
+}
+
+/**
+ * The names of the numeric GestureRecognizerOptions that have defaults
+ */
+type GestureThresholdOption = "tapMaxMovementCm" | "tapMaxSeconds" | "doubleTapMaxSeconds" | "doubleTapMaxDistanceCm"
+  | "longPressSeconds" | "swipeMinDistanceCm" | "swipeMaxSeconds" | "pinchMinDistanceCm" | "rotateMinDegrees";
+
+interface TrackedTouch {
+  start: Point;
+  current: Point;
+  startTime: number;
+}
+
+/**
+ * Recognises gestures from a stream of touch events. Pass it every touch event from
+ * either a fullscreen app's native TouchEvents or a background app's OrdamoSDK.onInteractions,
+ * for example:
+ *
+ *     sdk.onInteractions = message => message.touchEvents.forEach(e => recognizer.handleTouchEvent(e));
+ *
+ * Create recognisers with OrdamoSDK.createGestureRecognizer() so that they use the SDK's
+ * clock, which the test harness replaces with a fake one.
+ */
+export class GestureRecognizer {
+
+  private _layout: Layout;
+  private _options: GestureRecognizerOptions;
+  private _touches: { [identifier: number]: TrackedTouch } = {};
+  private _touchCount = 0;
+  private _isMultiTouch = false;
+  private _now: () => number;
+  private _setTimeout: (callback: () => void, milliseconds: number) => void;
+  private _longPressPending = false;
+  // incremented to cancel a pending long press, since setTimeout need not return a handle
+  private _longPressGeneration = 0;
+  private _longPressFired = false;
+  private _lastTap: { point: Point, time: number } = null;
+  private _pinchStart: { distance: number, angle: number, pinching: boolean, rotating: boolean } = null;
+
+  constructor(options: GestureRecognizerOptions) {
+    this._options = options;
+    this._layout = options.layout;
+    this._now = options.now || (() => Date.now());
+    this._setTimeout = options.setTimeout || ((callback, milliseconds) => { window.setTimeout(callback, milliseconds); });
+  }
+
+  /**
+   * Update the layout, e.g. after it has changed while the app is running
+   */
+  setLayout(layout: Layout): void {
+    this._layout = layout;
+  }
+
+  /**
+   * Process a touchstart, touchmove, touchend or touchcancel event
+   */
+  handleTouchEvent(event: CommonTouchEvent): void {
+    let changedTouches: CrossWindowTouch[] = Array.prototype.slice.call(event.changedTouches);
+    if (event.type === "touchstart") {
+      changedTouches.forEach(touch => this._touchStart(touch));
+    } else if (event.type === "touchmove") {
+      changedTouches.forEach(touch => this._touchMove(touch));
+      this._checkMultiTouchGestures();
+    } else if (event.type === "touchend" || event.type === "touchcancel") {
+      changedTouches.forEach(touch => this._touchEnd(touch, event.type === "touchcancel"));
+    }
+  }
+
+  /**
+   * Cancel any pending long press and forget all touches
+   */
+  reset(): void {
+    this._clearLongPress();
+    this._touches = {};
+    this._touchCount = 0;
+    this._isMultiTouch = false;
+    this._pinchStart = null;
+  }
+
+
+  //
+  // PRIVATE STUFF
+  //
+
+  private _touchStart(touch: CrossWindowTouch) {
+    let point = { x: touch.clientX, y: touch.clientY };
+    if (!this._touches[touch.identifier]) {
+      this._touchCount++;
+    }
+    this._touches[touch.identifier] = { start: point, current: point, startTime: this._now() };
+
+    if (this._touchCount === 1) {
+      this._isMultiTouch = false;
+      this._longPressFired = false;
+      this._clearLongPress();
+      let generation = this._longPressGeneration;
+      this._longPressPending = true;
+      this._setTimeout(() => {
+        if (generation !== this._longPressGeneration) {
+          return;
+        }
+        this._longPressPending = false;
+        this._longPressFired = true;
+        this._emit("longpress", point);
+      }, this._getOption("longPressSeconds", 0.6) * 1000);
+    } else {
+      this._isMultiTouch = true;
+      this._clearLongPress();
+      if (this._touchCount === 2) {
+        let [a, b] = this._getFirstTwoTouches();
+        this._pinchStart = { distance: distance(a, b), angle: getAngle(a, b), pinching: false, rotating: false };
+      }
+    }
+  }
+
+  private _touchMove(touch: CrossWindowTouch) {
+    let tracked = this._touches[touch.identifier];
+    if (!tracked) {
+      return;
+    }
+    tracked.current = { x: touch.clientX, y: touch.clientY };
+    if (distance(tracked.start, tracked.current) > this._cmToPx(this._getOption("tapMaxMovementCm", 1))) {
+      this._clearLongPress();
+    }
+  }
+
+  private _touchEnd(touch: CrossWindowTouch, cancelled: boolean) {
+    let tracked = this._touches[touch.identifier];
+    if (!tracked) {
+      return;
+    }
+    delete this._touches[touch.identifier];
+    this._touchCount--;
+    this._clearLongPress();
+    if (this._touchCount < 2) {
+      this._pinchStart = null;
+    }
+    if (cancelled || this._isMultiTouch || this._longPressFired) {
+      return;
+    }
+    tracked.current = { x: touch.clientX, y: touch.clientY };
+    let seconds = (this._now() - tracked.startTime) / 1000;
+    let moved = distance(tracked.start, tracked.current);
+    if (moved <= this._cmToPx(this._getOption("tapMaxMovementCm", 1)) && seconds <= this._getOption("tapMaxSeconds", 0.3)) {
+      this._tap(tracked.start);
+    } else if (moved >= this._cmToPx(this._getOption("swipeMinDistanceCm", 3)) && seconds <= this._getOption("swipeMaxSeconds", 0.5)) {
+      this._swipe(tracked.start, tracked.current);
+    }
+  }
+
+  private _tap(point: Point) {
+    this._emit("tap", point);
+    let now = this._now();
+    let lastTap = this._lastTap;
+    if (lastTap
+      && (now - lastTap.time) / 1000 <= this._getOption("doubleTapMaxSeconds", 0.3)
+      && distance(lastTap.point, point) <= this._cmToPx(this._getOption("doubleTapMaxDistanceCm", 2))) {
+      this._lastTap = null;
+      this._emit("doubletap", point);
+    } else {
+      this._lastTap = { point, time: now };
+    }
+  }
+
+  private _swipe(start: Point, end: Point) {
+    let plateSpot = findNearestPlateSpot(this._layout, start);
+    let vector = { x: end.x - start.x, y: end.y - start.y };
+    if (plateSpot) {
+      // rotate the movement into the diner's frame of reference
+      let origin = toLocal(start, plateSpot);
+      let local = toLocal(end, plateSpot);
+      vector = { x: local.x - origin.x, y: local.y - origin.y };
+    }
+    let direction: SwipeDirection;
+    if (Math.abs(vector.x) > Math.abs(vector.y)) {
+      direction = vector.x > 0 ? "right" : "left";
+    } else {
+      direction = vector.y > 0 ? "down" : "up";
+    }
+    this._emit("swipe", start, {
+      direction,
+      distanceCm: distance(start, end) / this._layout.resolutionPixelsPerCm
+    });
+  }
+
+  private _checkMultiTouchGestures() {
+    let pinchStart = this._pinchStart;
+    if (!pinchStart) {
+      return;
+    }
+    let [a, b] = this._getFirstTwoTouches();
+    let midpoint = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    let currentDistance = distance(a, b);
+    if (Math.abs(currentDistance - pinchStart.distance) >= this._cmToPx(this._getOption("pinchMinDistanceCm", 1))) {
+      pinchStart.pinching = true;
+    }
+    if (pinchStart.pinching && pinchStart.distance > 0) {
+      this._emit("pinch", midpoint, { scale: currentDistance / pinchStart.distance });
+    }
+    let rotation = normaliseDegrees(getAngle(a, b) - pinchStart.angle);
+    if (Math.abs(rotation) >= this._getOption("rotateMinDegrees", 10)) {
+      pinchStart.rotating = true;
+    }
+    if (pinchStart.rotating) {
+      this._emit("rotate", midpoint, { rotationDegrees: rotation });
+    }
+  }
+
+  private _getFirstTwoTouches(): Point[] {
+    return Object.keys(this._touches).slice(0, 2).map(id => this._touches[id as any].current);
+  }
+
+  private _emit(type: GestureType, point: Point, details: {} = {}) {
+    let plateSpot = findNearestPlateSpot(this._layout, point);
+    let gesture: Gesture = Object.assign({
+      type,
+      x: point.x,
+      y: point.y,
+      plateSpotId: plateSpot ? plateSpot.id : undefined
+    }, details);
+    this._options.onGesture(gesture);
+  }
+
+  private _clearLongPress() {
+    if (this._longPressPending) {
+      this._longPressGeneration++;
+      this._longPressPending = false;
+    }
+  }
+
+  private _getOption(name: GestureThresholdOption, defaultValue: number): number {
+    let value = this._options[name];
+    return typeof value === "number" ? value : defaultValue;
+  }
+
+  private _cmToPx(cm: number): number {
+    return cm * this._layout.resolutionPixelsPerCm;
+  }
+}
+
+/**
+ * Return the angle in degrees of the line from a to b, clockwise from the x axis
+ */
+function getAngle(a: Point, b: Point): number {
+  return Math.atan2(b.y - a.y, b.x - a.x) * 180 / Math.PI;
+}
+
+/**
+ * Return an angle in the range -180 to 180
+ */
+function normaliseDegrees(degrees: number): number {
+  degrees = degrees % 360;
+  if (degrees > 180) {
+    degrees -= 360;
+  } else if (degrees <= -180) {
+    degrees += 360;
+  }
+  return degrees;
+}
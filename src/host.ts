@@ -0,0 +1,583 @@
+"use strict";
+
+import {
+  AnalyticsEvent,
+  AnalyticsMessage,
+  AppResultMessage,
+  CloseMessage,
+  CrossWindowTouchEvent,
+  ErrorMessage,
+  getProtocolVersion,
+  InitMessage,
+  isSupportedByProtocolVersion,
+  InteractionsMessage,
+  LaunchAppMessage,
+  Layout,
+  LayoutMessage,
+  LoadMessage,
+  MenuNode,
+  Message,
+  NavigateMessage,
+  negotiateProtocolVersion,
+  PROTOCOL_VERSION,
+  SetMenuNodesMessage,
+  StoreStateMessage,
+  UpdateMenuNodeMessage,
+  validateMessage
+} from "./protocol";
+
+import { patchMenuNodes, validateMenuNodeIds } from "./menu";
+
+/**
+ * The lifecycle of an app as seen by the host. An app starts "loading", becomes "initialised"
+ * when the host sends it an init message in reply to its load message, "ready" when it has
+ * rendered itself, and "closed" when it requests to be closed or the host is destroyed.
+ */
+export type OrdamoHostState = "loading" | "initialised" | "ready" | "closed";
+
+export interface OrdamoHostOptions {
+  /**
+   * The origin that messages to the app are restricted to, defaults to "*"
+   */
+  targetOrigin?: string;
+
+  /**
+   * The number of seconds the app has to send its load message before onTimeout is
+   * called, defaults to 10
+   */
+  loadTimeoutSeconds?: number;
+
+  /**
+   * The number of seconds the app has to send its ready message after being sent the
+   * init message before onTimeout is called, defaults to 5
+   */
+  readyTimeoutSeconds?: number;
+
+  /**
+   * The number of seconds without a heartbeat message after which the app is considered
+   * to have hung and onHang is called, defaults to 15. See HEARTBEAT_INTERVAL_SECONDS.
+   */
+  heartbeatTimeoutSeconds?: number;
+
+  /**
+   * The app's navigation menu when it is launched, normally AppMetadata.menuNodes. The app
+   * may change it at runtime, see onMenuChange.
+   */
+  menuNodes?: MenuNode[];
+
+  /**
+   * A convenience property to set the initial value of OrdamoHost.onLoad
+   */
+  onLoad?: (message: LoadMessage) => void;
+
+  /**
+   * A convenience property to set the initial value of OrdamoHost.onReady
+   */
+  onReady?: () => void;
+
+  /**
+   * A convenience property to set the initial value of OrdamoHost.onClose
+   */
+  onClose?: (result: any) => void;
+
+  /**
+   * A convenience property to set the initial value of OrdamoHost.onLaunchApp
+   */
+  onLaunchApp?: (appId: string, params: any, requestId: string) => void;
+
+  /**
+   * A convenience property to set the initial value of OrdamoHost.onTimeout
+   */
+  onTimeout?: (state: OrdamoHostState) => void;
+
+  /**
+   * A convenience property to set the initial value of OrdamoHost.onHang
+   */
+  onHang?: () => void;
+
+  /**
+   * A convenience property to set the initial value of OrdamoHost.onMenuChange
+   */
+  onMenuChange?: (menuNodes: MenuNode[]) => void;
+
+  /**
+   * A convenience property to set the initial value of OrdamoHost.onStoreState
+   */
+  onStoreState?: (key: string, value: string) => void;
+
+  /**
+   * A convenience property to set the initial value of OrdamoHost.onAnalytics
+   */
+  onAnalytics?: (events: AnalyticsEvent[]) => void;
+
+  /**
+   * A convenience property to set the initial value of OrdamoHost.onError
+   */
+  onError?: (error: ErrorMessage) => void;
+
+  /**
+   * A convenience property to set the initial value of OrdamoHost.onProtocolError
+   */
+  onProtocolError?: (error: ErrorMessage, receivedMessage: any) => void;
+}
+
+/**
+ * The host side of the app protocol, the counterpart of OrdamoSDK. Create one instance
+ * for each launch of an app, wrapping the iframe (or window) that the app is loaded in.
+ */
+export class OrdamoHost {
+
+  private _target: HTMLIFrameElement | Window;
+  private _targetOrigin: string;
+  private _loadTimeoutSeconds: number;
+  private _readyTimeoutSeconds: number;
+  private _heartbeatTimeoutSeconds: number;
+  private _state: OrdamoHostState = "loading";
+  private _loadMessage: LoadMessage = null;
+  private _protocolVersion = PROTOCOL_VERSION;
+  private _timeout: number = null;
+  private _heartbeatTimeout: number = null;
+  private _receivedHeartbeat = false;
+  private _paused = false;
+  private _menuNodes: MenuNode[];
+  private _messageListener: (event: MessageEvent) => void;
+
+  /**
+   * Begin listening for messages from the app. Create the host before the app
+   * starts loading, or its load message may be missed.
+   */
+  constructor(target: HTMLIFrameElement | Window, options: OrdamoHostOptions = {}) {
+    this._target = target;
+    this._targetOrigin = options.targetOrigin || "*";
+    this._loadTimeoutSeconds = options.loadTimeoutSeconds || 10;
+    this._readyTimeoutSeconds = options.readyTimeoutSeconds || 5;
+    this._heartbeatTimeoutSeconds = options.heartbeatTimeoutSeconds || 15;
+    this._menuNodes = options.menuNodes || [];
+
+    this.onLoad = options.onLoad;
+    this.onReady = options.onReady;
+    this.onClose = options.onClose;
+    this.onLaunchApp = options.onLaunchApp;
+    this.onTimeout = options.onTimeout;
+    this.onHang = options.onHang;
+    this.onMenuChange = options.onMenuChange;
+    this.onStoreState = options.onStoreState;
+    this.onAnalytics = options.onAnalytics;
+    this.onError = options.onError;
+    this.onProtocolError = options.onProtocolError;
+
+    this._messageListener = this._handleAppMessage.bind(this);
+    window.addEventListener("message", this._messageListener);
+    this._startTimeout(this._loadTimeoutSeconds);
+  }
+
+  /**
+   * A callback invoked when the app has loaded and is waiting for an init message, which
+   * should be sent with sendInit()
+   */
+  onLoad: (message: LoadMessage) => void;
+
+  /**
+   * A callback invoked when the app has rendered itself and is safe to display
+   */
+  onReady: () => void;
+
+  /**
+   * A callback invoked when the app requests that it be closed. If another app launched
+   * this one, the result should be passed to it with sendAppResult().
+   */
+  onClose: (result: any) => void;
+
+  /**
+   * A callback invoked when the app requests that another app be launched, see
+   * OrdamoSDK.launchApp(). The host should launch it with the params in
+   * InitMessage.launchParams, and pass its result back to this app with sendAppResult()
+   * when it closes, along with the requestId.
+   *
+   * If no callback is set, the request is logged to the console.
+   */
+  onLaunchApp: (appId: string, params: any, requestId: string) => void;
+
+  /**
+   * A callback invoked if the app takes too long to send its load or ready message. It is
+   * passed the state that the app was stuck in.
+   */
+  onTimeout: (state: OrdamoHostState) => void;
+
+  /**
+   * A callback invoked if the app stops sending heartbeat messages, meaning that it has
+   * frozen. The host should destroy this OrdamoHost and restart the app.
+   *
+   * Apps built with SDK versions before heartbeats were introduced never send them, so
+   * hang detection only starts once the first heartbeat has been received. It is
+   * suspended while the app is paused, because browsers may throttle hidden apps.
+   *
+   * If no callback is set, the hang is logged to the console.
+   */
+  onHang: () => void;
+
+  /**
+   * A callback invoked when the app changes its navigation menu with
+   * OrdamoSDK.setMenuNodes() or OrdamoSDK.updateMenuNode(). It is passed the whole new
+   * menu, which is also available from getMenuNodes(). The host should redraw the menu.
+   */
+  onMenuChange: (menuNodes: MenuNode[]) => void;
+
+  /**
+   * A callback invoked when an app using "host" state storage changes a stored value. The
+   * host should persist the value and pass it back in InitMessage.storedState when the app
+   * is next launched on this table. A null value means the key has been removed.
+   */
+  onStoreState: (key: string, value: string) => void;
+
+  /**
+   * A callback invoked when the app sends a batch of analytics events, see
+   * OrdamoSDK.trackEvent(). The host should forward them to its analytics service.
+   */
+  onAnalytics: (events: AnalyticsEvent[]) => void;
+
+  /**
+   * A callback invoked when the app reports an error, for example because it could not
+   * understand a message sent by the host. Errors with the errorType "uncaught" mean that
+   * the app threw an error that it did not handle, and may need to be restarted.
+   */
+  onError: (error: ErrorMessage) => void;
+
+  /**
+   * A callback invoked when the app sends a message that this version of the SDK can not
+   * understand. The message is ignored and the error is also reported to the app.
+   *
+   * If no callback is set, the error is logged to the console.
+   */
+  onProtocolError: (error: ErrorMessage, receivedMessage: any) => void;
+
+  /**
+   * Return the current state of the app
+   */
+  getState(): OrdamoHostState {
+    return this._state;
+  }
+
+  /**
+   * Return the load message sent by the app, or null if it has not loaded yet
+   */
+  getLoadMessage(): LoadMessage {
+    return this._loadMessage;
+  }
+
+  /**
+   * Return the app's current navigation menu, see OrdamoHostOptions.menuNodes
+   */
+  getMenuNodes(): MenuNode[] {
+    return this._menuNodes;
+  }
+
+  /**
+   * Return the protocol version negotiated with the app when it loaded: the older of the
+   * version declared in its load message and PROTOCOL_VERSION
+   */
+  getNegotiatedProtocolVersion(): number {
+    return this._protocolVersion;
+  }
+
+  /**
+   * Send the information that the app needs to render itself. This must be called once
+   * only, after the app has loaded. The message's protocolVersion is set to the version
+   * negotiated with the app, see getNegotiatedProtocolVersion(), and its menuNodes to
+   * the app's menu, see OrdamoHostOptions.menuNodes.
+   */
+  sendInit(message: InitMessage): void {
+    if (this._state !== "loading" || !this._loadMessage) {
+      throw new Error(`Illegal call to sendInit() in state "${this._state}", it must be called once only after onLoad has fired.`);
+    }
+    this._state = "initialised";
+    this._sendAppMessage(Object.assign({}, message, { protocolVersion: this._protocolVersion, menuNodes: this._menuNodes }));
+    this._startTimeout(this._readyTimeoutSeconds);
+  }
+
+  /**
+   * Forward touch events to a background app, see OrdamoSDK.onInteractions
+   */
+  sendInteractions(touchEvents: CrossWindowTouchEvent[]): void {
+    this._requireReady("sendInteractions");
+    let message: InteractionsMessage = {
+      eventType: "interactions",
+      touchEvents
+    };
+    this._sendAppMessage(message);
+  }
+
+  /**
+   * Notify the app that a diner has clicked on one of its navigation menu items
+   */
+  sendNavigate(navigateButtonId: string): void {
+    this._requireReady("sendNavigate");
+    let message: NavigateMessage = {
+      eventType: "navigate",
+      navigateButtonId
+    };
+    this._sendAppMessage(message);
+  }
+
+  /**
+   * Notify the app that the layout has changed, e.g. because a diner has sat down. This
+   * may be called any time after sendInit(), see OrdamoSDK.onLayoutChange
+   */
+  sendLayout(layout: Layout): void {
+    if (this._state !== "initialised" && this._state !== "ready") {
+      throw new Error(`Illegal call to sendLayout() in state "${this._state}", it must be called after sendInit().`);
+    }
+    let message: LayoutMessage = {
+      eventType: "layout",
+      layout
+    };
+    this._sendAppMessage(message);
+  }
+
+  /**
+   * Pass the result of an app launched by this one to it, with the requestId that was
+   * passed to onLaunchApp
+   */
+  sendAppResult(appId: string, result: any, requestId: string): void {
+    this._requireReady("sendAppResult");
+    let message: AppResultMessage = {
+      eventType: "appResult",
+      appId,
+      result,
+      requestId
+    };
+    this._sendAppMessage(message);
+  }
+
+  /**
+   * Tell the app that it has been hidden, e.g. because another app is being shown, so that
+   * it can save its state and stop videos and animations. See OrdamoSDK.onPause
+   */
+  sendPause(): void {
+    this._requireReady("sendPause");
+    this._paused = true;
+    this._clearHeartbeatTimeout();
+    this._sendAppMessage({ eventType: "pause" });
+  }
+
+  /**
+   * Tell the app that it is visible again after sendPause(), see OrdamoSDK.onResume
+   */
+  sendResume(): void {
+    this._requireReady("sendResume");
+    this._paused = false;
+    this._startHeartbeatTimeout();
+    this._sendAppMessage({ eventType: "resume" });
+  }
+
+  /**
+   * Ask the app to save its state now, e.g. before the host unloads it
+   */
+  sendSaveState(): void {
+    this._requireReady("sendSaveState");
+    this._sendAppMessage({ eventType: "saveState" });
+  }
+
+  /**
+   * Stop listening for messages from the app. The host can not be used after this is called.
+   */
+  destroy(): void {
+    this._clearTimeout();
+    this._clearHeartbeatTimeout();
+    this._state = "closed";
+    window.removeEventListener("message", this._messageListener);
+  }
+
+
+  //
+  // PRIVATE STUFF
+  //
+
+  private _handleAppMessage(event: MessageEvent) {
+    if (event.source !== this._getTargetWindow() || this._state === "closed") {
+      return;
+    }
+    let problems = validateMessage(event.data);
+    if (problems.length > 0) {
+      this._reportProtocolError(`Invalid message received from app: ${problems.join("; ")}`, event.data);
+      return;
+    }
+    let message = event.data as Message;
+    if (message.eventType === "load") {
+      if (this._loadMessage) {
+        console.error("Second load message sent, ignoring");
+        return;
+      }
+      let protocolVersion = negotiateProtocolVersion(getProtocolVersion(message));
+      if (protocolVersion === null) {
+        this._reportProtocolError(`The app speaks protocol version ${getProtocolVersion(message)}, which is not supported`, message);
+        return;
+      }
+      this._clearTimeout();
+      this._protocolVersion = protocolVersion;
+      this._loadMessage = message as LoadMessage;
+      if (this.onLoad) {
+        this.onLoad(this._loadMessage);
+      }
+    }
+    else if (message.eventType === "ready") {
+      if (this._state !== "initialised") {
+        console.error(`Unexpected ready message in state "${this._state}", ignoring`);
+        return;
+      }
+      this._clearTimeout();
+      this._state = "ready";
+      if (this.onReady) {
+        this.onReady();
+      }
+    }
+    else if (message.eventType === "close") {
+      this._clearTimeout();
+      this._clearHeartbeatTimeout();
+      this._state = "closed";
+      if (this.onClose) {
+        let result = (message as CloseMessage).result;
+        this.onClose(result === undefined ? null : result);
+      }
+    }
+    else if (message.eventType === "launchApp") {
+      let launchApp = message as LaunchAppMessage;
+      if (this.onLaunchApp) {
+        this.onLaunchApp(launchApp.appId, launchApp.params === undefined ? null : launchApp.params, launchApp.requestId);
+      } else {
+        console.error(`The app asked to launch the app "${launchApp.appId}" but this host has no onLaunchApp callback, ignoring`);
+      }
+    }
+    else if (message.eventType === "heartbeat") {
+      this._receivedHeartbeat = true;
+      this._startHeartbeatTimeout();
+    }
+    else if (message.eventType === "setMenuNodes") {
+      let menuNodes = (message as SetMenuNodesMessage).menuNodes;
+      this._changeMenu(menuNodes, message);
+    }
+    else if (message.eventType === "updateMenuNode") {
+      let update = message as UpdateMenuNodeMessage;
+      let menuNodes = patchMenuNodes(this._menuNodes, update.id, update.patch);
+      if (menuNodes) {
+        this._changeMenu(menuNodes, message);
+      } else {
+        this._reportProtocolError(`The app tried to update the menu node "${update.id}", which does not exist`, message);
+      }
+    }
+    else if (message.eventType === "storeState") {
+      if (this.onStoreState) {
+        let storeState = message as StoreStateMessage;
+        this.onStoreState(storeState.key, storeState.value);
+      } else {
+        console.error("The app sent a storeState message but this host has no onStoreState callback, ignoring");
+      }
+    }
+    else if (message.eventType === "analytics") {
+      // collecting analytics is optional for hosts, so events are dropped without a callback
+      if (this.onAnalytics) {
+        this.onAnalytics((message as AnalyticsMessage).events);
+      }
+    }
+    else if (message.eventType === "error") {
+      if (this.onError) {
+        this.onError(message as ErrorMessage);
+      } else {
+        console.error(`The app reported an error: ${(message as ErrorMessage).message}`);
+      }
+    }
+    else {
+      this._reportProtocolError(`Message type "${message.eventType}" can not be sent by an app`, message);
+    }
+  }
+
+  private _changeMenu(menuNodes: MenuNode[], receivedMessage: Message) {
+    let problems = validateMenuNodeIds(menuNodes);
+    if (problems.length > 0) {
+      this._reportProtocolError(`The app tried to change its menu so that ids are not unique: ${problems.join("; ")}`, receivedMessage);
+      return;
+    }
+    this._menuNodes = menuNodes;
+    if (this.onMenuChange) {
+      this.onMenuChange(menuNodes);
+    }
+  }
+
+  private _reportProtocolError(message: string, receivedMessage: any) {
+    let error: ErrorMessage = {
+      eventType: "error",
+      errorType: "protocol",
+      message,
+      protocolVersion: PROTOCOL_VERSION
+    };
+    this._sendAppMessage(error);
+    if (this.onProtocolError) {
+      this.onProtocolError(error, receivedMessage);
+    } else {
+      console.error(message, receivedMessage);
+    }
+  }
+
+  private _sendAppMessage(message: Message) {
+    if (!isSupportedByProtocolVersion(message.eventType, this._protocolVersion)) {
+      console.error(`Not sending "${message.eventType}" message, the app speaks protocol version ${this._protocolVersion} which does not support it`);
+      return;
+    }
+    this._getTargetWindow().postMessage(message, this._targetOrigin);
+  }
+
+  private _getTargetWindow(): Window {
+    if (this._target instanceof HTMLIFrameElement) {
+      return this._target.contentWindow;
+    }
+    return this._target as Window;
+  }
+
+  private _requireReady(methodName: string) {
+    if (this._state !== "ready") {
+      throw new Error(`Illegal call to ${methodName}() in state "${this._state}", the app is not ready.`);
+    }
+  }
+
+  private _startTimeout(seconds: number) {
+    this._clearTimeout();
+    let state = this._state;
+    this._timeout = window.setTimeout(() => {
+      this._timeout = null;
+      if (this.onTimeout) {
+        this.onTimeout(state);
+      } else {
+        console.error(`The app took more than ${seconds} seconds to leave the "${state}" state.`);
+      }
+    }, seconds * 1000);
+  }
+
+  private _startHeartbeatTimeout() {
+    this._clearHeartbeatTimeout();
+    if (!this._receivedHeartbeat || this._paused) {
+      return;
+    }
+    this._heartbeatTimeout = window.setTimeout(() => {
+      this._heartbeatTimeout = null;
+      if (this.onHang) {
+        this.onHang();
+      } else {
+        console.error(`The app has not sent a heartbeat for ${this._heartbeatTimeoutSeconds} seconds, it may have hung.`);
+      }
+    }, this._heartbeatTimeoutSeconds * 1000);
+  }
+
+  private _clearHeartbeatTimeout() {
+    if (this._heartbeatTimeout !== null) {
+      clearTimeout(this._heartbeatTimeout);
+      this._heartbeatTimeout = null;
+    }
+  }
+
+  private _clearTimeout() {
+    if (this._timeout !== null) {
+      clearTimeout(this._timeout);
+      this._timeout = null;
+    }
+  }
+}
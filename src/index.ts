@@ -1,5 +1,56 @@
 "use strict";
 
+export * from "./protocol";
+export * from "./host";
+export * from "./geometry";
+export * from "./gestures";
+export * from "./placement";
+export * from "./storage";
+export * from "./layouts";
+export * from "./recording";
+export * from "./menu";
+
+import {
+  AnalyticsEvent,
+  AnalyticsMessage,
+  AnalyticsProperties,
+  AppResultMessage,
+  CloseMessage,
+  CrossWindowTouch,
+  CrossWindowTouchEvent,
+  ErrorMessage,
+  HEARTBEAT_INTERVAL_SECONDS,
+  InitMessage,
+  InteractionsMessage,
+  LaunchAppMessage,
+  Layout,
+  LayoutMessage,
+  LoadMessage,
+  MIN_PROTOCOL_VERSION,
+  MenuNode,
+  MenuNodePatch,
+  Message,
+  NavigateMessage,
+  PROTOCOL_VERSION,
+  SetMenuNodesMessage,
+  StoreStateMessage,
+  UpdateMenuNodeMessage,
+  VideoInfo,
+  getProtocolVersion,
+  isSupportedByProtocolVersion,
+  makeInteractionsMessage,
+  negotiateProtocolVersion,
+  validateLayout,
+  validateMessage
+} from "./protocol";
+
+import { GestureRecognizer, GestureRecognizerOptions } from "./gestures";
+import { LayoutDiff, Point, attributeTouchEvent, diffLayouts, distance } from "./geometry";
+import { PlacementOptions, PlacementTarget, findPlacementShape, placeElement } from "./placement";
+import { HostStateStorage, StateStorage, StateStorageType } from "./storage";
+import { LAYOUT_PRESETS, isLayoutPreset, makeGridLayout, makePresetLayout, parseGridLayoutParams } from "./layouts";
+import { TouchRecorder, TouchRecording, validateTouchRecording } from "./recording";
+import { patchMenuNodes, validateMenuNodeIds } from "./menu";
 
 export const enum RunningMode {
   /**
@@ -31,7 +82,10 @@ if (typeof window === "undefined") {
 
 let INSTANCE_CREATED = false;
 
-const MAX_SAVED_STATE_SECONDS = 10 * 60;
+const DEFAULT_SAVED_STATE_EXPIRY_SECONDS = 10 * 60;
+const DEFAULT_ANALYTICS_BATCH_SECONDS = 10;
+const MAX_ANALYTICS_BATCH_SIZE = 50;
+const MAX_REPORTED_ERRORS = 20;
 
 /**
  * Return the SDK running mode, useful for distinguishing between test and live
@@ -50,6 +104,18 @@ export interface OrdamoSDKOptions<T> {
    */
   contentSchema?: T;
 
+  /**
+   * Functions to upgrade content created with an earlier version of the content schema,
+   * keyed by the version that they upgrade to, e.g. {2: content => ...} upgrades version
+   * 1 content to version 2. See migrateContent().
+   *
+   * When renaming or restructuring fields in the schema, add a migration here. The version
+   * of the schema is the highest version in this map, see getContentSchemaVersion(). Export
+   * the migrations from content-schema.ts as `contentMigrations`, so that build-content
+   * uses the same version.
+   */
+  contentMigrations?: ContentMigrations;
+
   /**
    * Required. A function to be called when data loading is complete and the
    * app may begin rendering itself based on the layout and content.
@@ -63,6 +129,34 @@ export interface OrdamoSDKOptions<T> {
    */
   saveStateCallback?: () => any;
 
+  /**
+   * Where to keep the saved state, either one of the built in storage types or a custom
+   * StateStorage implementation. Defaults to "session", see StateStorageType.
+   */
+  stateStorage?: StateStorageType | StateStorage;
+
+  /**
+   * The number of seconds after which saved state is discarded, defaults to 600. Use
+   * Infinity to keep saved state until the session changes, or 0 to discard it as soon
+   * as any time has passed.
+   */
+  savedStateExpirySeconds?: number;
+
+  /**
+   * An optional function to upgrade state saved by a different version of the app, so
+   * that an app update doesn't discard a game in progress. It is passed the version that
+   * saved the state and the state, and returns the upgraded state, or null to discard it.
+   *
+   * If absent, state saved by a different version of the app is discarded.
+   */
+  migrateSavedState?: (oldVersion: string, state: any) => any;
+
+  /**
+   * The number of seconds that analytics events are collected for before they are sent
+   * to the host together, defaults to 10. See OrdamoSDK.trackEvent().
+   */
+  analyticsBatchSeconds?: number;
+
   /**
    * A convenience property to set the initial value of OrdamoSDK.onNavigate
    */
@@ -88,6 +182,36 @@ export interface OrdamoSDKOptions<T> {
    * A convenience property to set the initial value of OrdamoSDK.onInteractions
    */
   onInteractions?: (interactions: InteractionsMessage) => void;
+
+  /**
+   * A convenience property to set the initial value of OrdamoSDK.onDinerInteraction
+   */
+  onDinerInteraction?: (plateSpotId: number, touchEvent: CrossWindowTouchEvent) => void;
+
+  /**
+   * A convenience property to set the initial value of OrdamoSDK.onLayoutChange
+   */
+  onLayoutChange?: (newLayout: Layout, oldLayout: Layout, diff: LayoutDiff) => void;
+
+  /**
+   * A convenience property to set the initial value of OrdamoSDK.onPause
+   */
+  onPause?: () => void;
+
+  /**
+   * A convenience property to set the initial value of OrdamoSDK.onResume
+   */
+  onResume?: () => void;
+
+  /**
+   * A convenience property to set the initial value of OrdamoSDK.onAppResult
+   */
+  onAppResult?: (appId: string, result: any, requestId: string) => void;
+
+  /**
+   * A convenience property to set the initial value of OrdamoSDK.onProtocolError
+   */
+  onProtocolError?: (error: ErrorMessage, receivedMessage: any) => void;
 }
 
 /**
@@ -96,14 +220,37 @@ export interface OrdamoSDKOptions<T> {
 export class OrdamoSDK<T> {
 
   private _initMessage: InitMessage;
+  // until the init message tells us otherwise, assume the host only speaks the oldest version
+  private _protocolVersion = MIN_PROTOCOL_VERSION;
+  private _unsupportedEventTypes: string[] = [];
   private _content: any;
   private _sentReadyEvent = false;
+  private _paused = false;
+  private _hostPaused = false;
+  private _pageHidden = false;
   private _savedState: any = null;
+  private _initTime: number;
+  private _pendingAnalyticsEvents: { name: string, properties: AnalyticsProperties, timestamp: number }[] = [];
+  private _analyticsFlushScheduled = false;
+  private _analyticsLog: AnalyticsEvent[] = [];
+  private _reportedErrorCount = 0;
+  private _errorOverlay: HTMLElement = null;
+  private _touchRecorder: TouchRecorder = null;
+  private _touchRecordingToReplay: TouchRecording = null;
+  private _menuNodes: MenuNode[] = null;
+  private _launchRequestCount = 0;
 
   private _contentSchema: T;
+  private _contentMigrations: ContentMigrations;
   private _initCallback: () => void;
   private _saveStateCallback: () => any;
+  private _stateStorageOption: StateStorageType | StateStorage;
+  private _stateStorage: StateStorage;
+  private _savedStateExpirySeconds: number;
+  private _migrateSavedState: (oldVersion: string, state: any) => any;
+  private _analyticsBatchSeconds: number;
   private _fullscreen: boolean;
+  private _elementBindings: { element: HTMLElement, target: PlacementTarget, options: PlacementOptions }[] = [];
 
   /**
    * When the OrdamoSDK instance is created it will communicate with the host application to
@@ -122,17 +269,32 @@ export class OrdamoSDK<T> {
     INSTANCE_CREATED = true;
 
     this.onInteractions = options.onInteractions;
+    this.onDinerInteraction = options.onDinerInteraction;
+    this.onLayoutChange = options.onLayoutChange;
+    this.onPause = options.onPause;
+    this.onResume = options.onResume;
     this.onNavigate = options.onNavigate;
+    this.onAppResult = options.onAppResult;
+    this.onProtocolError = options.onProtocolError;
 
     this._contentSchema = options.contentSchema;
+    this._contentMigrations = options.contentMigrations || {};
     this._initCallback = options.initCallback;
     this._saveStateCallback = options.saveStateCallback;
+    this._stateStorageOption = options.stateStorage || "session";
+    this._savedStateExpirySeconds = options.savedStateExpirySeconds === undefined ? DEFAULT_SAVED_STATE_EXPIRY_SECONDS : options.savedStateExpirySeconds;
+    this._migrateSavedState = options.migrateSavedState;
+    this._analyticsBatchSeconds = options.analyticsBatchSeconds || DEFAULT_ANALYTICS_BATCH_SECONDS;
     this._fullscreen = options.fullscreen;
 
     this._initialise();
   }
 
-  private _initialise() {
+  /**
+   * Start communicating with the host, or in development mode set up a mock host.
+   * Overridden by the test harness, see testing.ts.
+   */
+  protected _initialise() {
     if (RUNNING_MODE === RunningMode.UNIT_TESTS) return;
 
     if (document.readyState !== "complete") {
@@ -152,9 +314,11 @@ export class OrdamoSDK<T> {
     }
 
     this._startTouchEmulation();
+    this._startLifecycleEvents();
+    this._startErrorReporting();
   }
 
-  private _getSavedStateKey() {
+  protected _getSavedStateKey() {
     return "ordamo-sdk-content-" + document.location.pathname;
   }
 
@@ -169,8 +333,12 @@ export class OrdamoSDK<T> {
     }
     if (!this._sentReadyEvent) {
       this._sentReadyEvent = true;
-      if (RUNNING_MODE === RunningMode.HOSTED) {
-        this._sendParentMessage({ eventType: "ready" });
+      this.trackEvent("ready", { readyTimeMs: this._now() - this._initTime });
+      if (this._isHosted()) {
+        this._sendMessage({ eventType: "ready" });
+      }
+      if (this._touchRecordingToReplay) {
+        this._replayTouchRecording(this._touchRecordingToReplay);
       }
     }
   }
@@ -185,6 +353,22 @@ export class OrdamoSDK<T> {
     return this._content;
   }
 
+  /**
+   * Return the content that the app should render as a plain object of values, e.g.
+   * {heroImage: "images/hero.jpg", prices: [5, 10]}, typed according to the content schema.
+   *
+   * The type can only be inferred if the contentSchema option was an object literal or a
+   * variable holding one, not a value declared with an interface type.
+   */
+  getContentValues<S extends ContentSchema>(this: OrdamoSDK<S>): ContentValues<S> {
+    this._requireInitMessage();
+    let values: any = {};
+    for (let prop in this._content) {
+      values[prop] = this._content[prop].value;
+    }
+    return values;
+  }
+
   /**
    * Get the table's current layout. Each restaurant table may be a different physical size with
    * a different number and position of plates.
@@ -204,6 +388,55 @@ export class OrdamoSDK<T> {
     return this._initMessage.table;
   }
 
+  /**
+   * Return the diners' preferred locales, most preferred first. If the host did not provide
+   * any locales, this is [DEFAULT_LOCALE].
+   */
+  getLocales(): string[] {
+    this._requireInitMessage();
+    let locales = this._initMessage.locales;
+    return locales && locales.length ? locales.slice() : [DEFAULT_LOCALE];
+  }
+
+  /**
+   * Return the diners' most preferred locale, e.g. "fr"
+   */
+  getLocale(): string {
+    return this.getLocales()[0];
+  }
+
+  /**
+   * Return the version of a localized content value that best matches the diners' locales.
+   *
+   * Each preferred locale is tried in order, then the same languages in any region (so
+   * "fr-CA" will match "fr" or "fr-FR"), then the first locale in the value, so a
+   * translation is always returned if there is one. Returns undefined if there is none, or
+   * if the value itself is null or undefined.
+   */
+  localize<V>(value: Localized<V>): V {
+    if (value === null || value === undefined) {
+      return undefined;
+    }
+    let locales = this.getLocales();
+    for (let locale of locales) {
+      if (value.hasOwnProperty(locale)) {
+        return value[locale];
+      }
+    }
+    for (let locale of locales) {
+      let language = getLanguage(locale);
+      for (let key in value) {
+        if (getLanguage(key) === language) {
+          return value[key];
+        }
+      }
+    }
+    for (let key in value) {
+      return value[key];
+    }
+    return undefined;
+  }
+
   /**
    * Return the requiredWidth value from the app's metadata, or undefined if no requiredWidth is set
    */
@@ -220,6 +453,17 @@ export class OrdamoSDK<T> {
     return this._initMessage.requiredHeight;
   }
 
+  /**
+   * Return the dimensions and duration of a video used in the content, e.g. to lay it out
+   * before it loads, or null if they are not known. Pass the path used in the content,
+   * e.g. `sdk.getVideoInfo(content.introVideo)`. See InitMessage.videoInfo.
+   */
+  getVideoInfo(videoPath: string): VideoInfo {
+    this._requireInitMessage();
+    let videoInfo = this._initMessage.videoInfo || {};
+    return videoInfo.hasOwnProperty(videoPath) ? videoInfo[videoPath] : null;
+  }
+
   /**
    * Sent by the host to non-fullscreen apps when there has been some interaction. Apps
    * can use this to implement *basic* interactivity even in non-fulscreen apps.
@@ -231,6 +475,40 @@ export class OrdamoSDK<T> {
    */
   onInteractions: (interactions: InteractionsMessage) => void;
 
+  /**
+   * A callback invoked for each touch event, once for each diner that the event's changed
+   * touches are closest to. It is passed the id of that diner's plate spot, so that apps can
+   * react in front of the diner who touched the table rather than across the whole table.
+   *
+   * The same caveats apply as for onInteractions.
+   */
+  onDinerInteraction: (plateSpotId: number, touchEvent: CrossWindowTouchEvent) => void;
+
+  /**
+   * A callback invoked when the host changes the layout while the app is running, for
+   * example because a diner has sat down or left the table. It is passed the new and old
+   * layouts and the plate spots and content areas that have been added, removed or moved.
+   *
+   * getLayout() returns the new layout by the time this is called, and elements bound with
+   * bindElement() have already been moved.
+   */
+  onLayoutChange: (newLayout: Layout, oldLayout: Layout, diff: LayoutDiff) => void;
+
+  /**
+   * A callback invoked when the app is hidden, either because the host has switched to
+   * another app or because the page is no longer visible. Apps should stop videos,
+   * animations and timers until onResume is called, which happens once the host has
+   * resumed the app and the page is visible again.
+   *
+   * The app's state is saved, if it has a saveStateCallback, just before this is called.
+   */
+  onPause: () => void;
+
+  /**
+   * A callback invoked when the app is visible again after onPause
+   */
+  onResume: () => void;
+
   /**
    * A callback invoked when the user clicks on an icon in the app's nagivation menu
    * (only relavent if the app defines a navigation menu in its metadata)
@@ -239,6 +517,22 @@ export class OrdamoSDK<T> {
    */
   onNavigate: (interactions: NavigateMessage) => void;
 
+  /**
+   * A callback invoked when an app launched with launchApp() closes, with the appId of that
+   * app, the result it passed to requestAppClose() or null if it passed none, and the
+   * requestId returned by the launchApp() call
+   */
+  onAppResult: (appId: string, result: any, requestId: string) => void;
+
+  /**
+   * A callback invoked when the host sends a message that this version of the SDK can not
+   * understand, for example because the host is running an incompatible protocol version. The
+   * message is ignored and the error is also reported to the host.
+   *
+   * If no callback is set, the error is logged to the console.
+   */
+  onProtocolError: (error: ErrorMessage, receivedMessage: any) => void;
+
   /**
    * Return the saved state as created by the saveStateCallback constructor option last
    * time the application quit.
@@ -253,18 +547,37 @@ export class OrdamoSDK<T> {
     return this._savedState;
   }
 
+  /**
+   * Return true if the app is paused, see onPause
+   */
+  isPaused(): boolean {
+    return this._paused;
+  }
+
   /**
    * Request that the host application closes this app and returns to the default app.
+   *
+   * If this app was launched by another app with launchApp(), the result is passed to the
+   * other app's onAppResult callback. It must be JSON serialisable, e.g.
+   * `{selectedDishId: "d42"}`.
    */
-  requestAppClose(): void {
-    if (RUNNING_MODE === RunningMode.HOSTED) {
-      this._sendParentMessage({ eventType: "close" });
+  requestAppClose(result: any = null): void {
+    if (this._initMessage) {
+      this.trackEvent("close", { openTimeMs: this._now() - this._initTime });
+    }
+    this._flushAnalytics();
+    if (this._isHosted()) {
+      let message: CloseMessage = { eventType: "close", result };
+      this._sendMessage(message);
     } else if (RUNNING_MODE === RunningMode.DEVELOPMENT) {
       document.body.style.transition = "opacity 1s, background 1s, visibility 0s linear 1s";
       document.body.style.opacity = "0";
       document.documentElement.style.background = "#FFF"; // <html> needs a background, or <body>'s one will display even if its hidden
       document.body.style.visibility = "hidden";
       logNotice("The app has been closed. In a hosted application, the user would now be seeing the main menu.");
+      if (result !== null) {
+        logNotice("The app closed with a result, which would be passed to the app that launched it:", result);
+      }
     }
     if (this._saveStateCallback) {
       this._saveState();
@@ -272,6 +585,166 @@ export class OrdamoSDK<T> {
   }
 
 
+  /**
+   * Ask the host to launch another app, passing it parameters that it can read with
+   * getLaunchParams(), e.g. `sdk.launchApp("dessert-menu", {section: "cakes"})`. When the
+   * other app closes, its result is passed to onAppResult along with the request id
+   * returned by this method, which tells apart several launches of the same app.
+   *
+   * WARNING: like MenuNode.launchAppId, this is an advanced feature intended for use when
+   * several related apps are controlled by a single "master" app.
+   */
+  launchApp(appId: string, params: any = null): string {
+    this._requireInitMessage();
+    let requestId = String(++this._launchRequestCount);
+    if (this._isHosted()) {
+      let message: LaunchAppMessage = { eventType: "launchApp", appId, params, requestId };
+      this._sendMessage(message);
+    } else if (RUNNING_MODE === RunningMode.DEVELOPMENT) {
+      logNotice(`In a hosted application, the app "${appId}" would now be launched with these parameters:`, params);
+    }
+    return requestId;
+  }
+
+  /**
+   * Return the parameters that this app was launched with, either by another app calling
+   * launchApp() or from MenuNode.launchParams, or null if there are none. In development
+   * mode, they can be set with the URL parameter ?launchParams=JSON
+   */
+  getLaunchParams(): any {
+    this._requireInitMessage();
+    let params = this._initMessage.launchParams;
+    return params === undefined ? null : params;
+  }
+
+  /**
+   * Return the app's current navigation menu, as sent by the host in the init message and
+   * changed by setMenuNodes() and updateMenuNode(). Returns null if the host did not send
+   * the menu, which hosts that speak protocol version 1 don't.
+   */
+  getMenuNodes(): MenuNode[] {
+    this._requireInitMessage();
+    return this._menuNodes;
+  }
+
+  /**
+   * Replace the app's navigation menu. The menu starts as AppMetadata.menuNodes each time
+   * the app is launched, and this can change it at any time after initialisation.
+   */
+  setMenuNodes(menuNodes: MenuNode[]): void {
+    this._requireInitMessage();
+    let problems = validateMenuNodeIds(menuNodes);
+    if (problems.length > 0) {
+      throw new Error(`Illegal call to setMenuNodes(), menu node ids must be unique: ${problems.join("; ")}`);
+    }
+    this._menuNodes = JSON.parse(JSON.stringify(menuNodes));
+    if (this._isHosted()) {
+      let message: SetMenuNodesMessage = { eventType: "setMenuNodes", menuNodes };
+      this._sendMessage(message);
+    } else if (RUNNING_MODE === RunningMode.DEVELOPMENT) {
+      logNotice("In a hosted application, the navigation menu would now be:", menuNodes);
+    }
+  }
+
+  /**
+   * Change one node of the app's navigation menu, identified by its id, e.g.
+   * `sdk.updateMenuNode("scores", {badge: "3"})` or `sdk.updateMenuNode("next-round",
+   * {hidden: false})`. See MenuNodePatch.
+   *
+   * An error is thrown if there is no node with the id, or if the patch's children reuse
+   * an id from elsewhere in the menu. If the host did not send the menu (see
+   * getMenuNodes()) these can't be checked here, and the host reports them with an error
+   * message instead, which is logged to the console.
+   */
+  updateMenuNode(id: string, patch: MenuNodePatch): void {
+    this._requireInitMessage();
+    if (patch.id !== undefined && patch.id !== id) {
+      throw new Error(`Illegal call to updateMenuNode(), the id of menu node "${id}" can not be changed.`);
+    }
+    let problems = validateMenuNodeIds(patch.children, "patch.children");
+    if (problems.length > 0) {
+      throw new Error(`Illegal call to updateMenuNode(), menu node ids must be unique: ${problems.join("; ")}`);
+    }
+    if (this._menuNodes) {
+      let menuNodes = patchMenuNodes(this._menuNodes, id, JSON.parse(JSON.stringify(patch)));
+      if (!menuNodes) {
+        throw new Error(`Illegal call to updateMenuNode(), there is no menu node with the id "${id}".`);
+      }
+      problems = validateMenuNodeIds(menuNodes);
+      if (problems.length > 0) {
+        throw new Error(`Illegal call to updateMenuNode(), menu node ids must be unique: ${problems.join("; ")}`);
+      }
+      this._menuNodes = menuNodes;
+    }
+    if (this._isHosted()) {
+      let message: UpdateMenuNodeMessage = { eventType: "updateMenuNode", id, patch };
+      this._sendMessage(message);
+    } else if (RUNNING_MODE === RunningMode.DEVELOPMENT) {
+      logNotice(`In a hosted application, the menu node "${id}" would now be updated with:`, patch);
+    }
+  }
+
+  /**
+   * Record that something happened in the app, e.g. `sdk.trackEvent("levelComplete",
+   * {level: 3})`, so that restaurants and app developers can learn which parts of the app
+   * diners use. Events are tagged with the table label, session id and app version, and
+   * sent to the host in batches, see OrdamoSDKOptions.analyticsBatchSeconds.
+   *
+   * The SDK tracks these events automatically: "launch" when the app is initialised,
+   * "ready" with the readyTimeMs taken to call notifyAppIsReady(), "navigate" with the
+   * navigateButtonId when a menu item is clicked, and "close" with the openTimeMs when
+   * requestAppClose() is called.
+   *
+   * In development mode, events are logged to the console instead, see
+   * downloadAnalyticsLog().
+   */
+  trackEvent(name: string, properties: AnalyticsProperties = {}): void {
+    if (typeof name !== "string" || !name) {
+      throw new Error(`Illegal call to trackEvent(), expected a non-empty event name but got ${JSON.stringify(name)}.`);
+    }
+    this._pendingAnalyticsEvents.push({ name, properties, timestamp: this._now() });
+    if (!this._isHosted() || this._pendingAnalyticsEvents.length >= MAX_ANALYTICS_BATCH_SIZE) {
+      this._flushAnalytics();
+    } else if (!this._analyticsFlushScheduled) {
+      this._analyticsFlushScheduled = true;
+      this._setTimeout(() => {
+        this._analyticsFlushScheduled = false;
+        this._flushAnalytics();
+      }, this._analyticsBatchSeconds * 1000);
+    }
+  }
+
+  /**
+   * In development mode, save the analytics events tracked so far as a JSON file. Also
+   * available by pressing Alt+A.
+   */
+  downloadAnalyticsLog(): void {
+    if (RUNNING_MODE !== RunningMode.DEVELOPMENT) {
+      throw new Error("downloadAnalyticsLog() is only available in development mode, in other modes analytics events are sent to the host.");
+    }
+    downloadJSONFile("analytics-log.json", this._analyticsLog);
+  }
+
+  /**
+   * Start recording the touch events received by the app, e.g. to capture the interactions
+   * that lead to a bug. See TouchRecording. In development mode, Alt+R starts a recording
+   * and pressing it again downloads it as a JSON file.
+   */
+  startTouchRecording(): void {
+    this._requireInitMessage();
+    this._touchRecorder = new TouchRecorder(this._initMessage.layout, () => this._now());
+  }
+
+  /**
+   * Stop recording touch events and return the recording, or null if startTouchRecording()
+   * has not been called
+   */
+  stopTouchRecording(): TouchRecording {
+    let recorder = this._touchRecorder;
+    this._touchRecorder = null;
+    return recorder ? recorder.getRecording() : null;
+  }
+
   /**
    * Set a "font-size: XXXpx" style property on the root element of the document (i.e. <html>)
    * so that the width of the plate spots are a known number of CSS rem units.
@@ -291,13 +764,62 @@ export class OrdamoSDK<T> {
     }
   }
 
+  /**
+   * Position an element over a plate spot or content area, sized to fit it and rotated to
+   * face its diner, e.g. `sdk.bindElement(menu, {plateSpotId: 2})`. See placeElement() for
+   * details and PlacementOptions for scaling elements designed at a fixed size.
+   *
+   * The placement is re-applied whenever the layout changes. If the layout doesn't contain
+   * the plate spot or content area, the element is hidden with "display: none".
+   */
+  bindElement(element: HTMLElement, target: PlacementTarget, options: PlacementOptions = {}): void {
+    this._requireInitMessage();
+    this.unbindElement(element);
+    this._elementBindings.push({ element, target, options });
+    this._applyElementBindings();
+  }
+
+  /**
+   * Stop updating the placement of an element bound with bindElement(). The element keeps
+   * its current position.
+   */
+  unbindElement(element: HTMLElement): void {
+    this._elementBindings = this._elementBindings.filter(binding => binding.element !== element);
+  }
+
+  /**
+   * Create a GestureRecognizer that times gestures with the SDK's clock, so that in tests
+   * long presses, double taps and swipes follow OrdamoTestHarness.advanceTime()
+   */
+  createGestureRecognizer(options: GestureRecognizerOptions): GestureRecognizer {
+    return new GestureRecognizer(Object.assign({
+      now: () => this._now(),
+      setTimeout: (callback: () => void, milliseconds: number) => this._setTimeout(callback, milliseconds)
+    }, options));
+  }
+
 
   //
   // PRIVATE STUFF
   //
 
   private _handleParentMessage(event: MessageEvent) {
-    let message = event.data as Message;
+    if (event.source !== parent) {
+      return;
+    }
+    this._receiveMessage(event.data);
+  }
+
+  /**
+   * Validate and act on a message from the host
+   */
+  protected _receiveMessage(data: any) {
+    let problems = validateMessage(data);
+    if (problems.length > 0) {
+      this._reportProtocolError(`Invalid message received from host: ${problems.join("; ")}`, data);
+      return;
+    }
+    let message = data as Message;
     if (message.eventType === "init") {
       if (this._initMessage) {
         console.error("Second init message sent, ignoring");
@@ -306,178 +828,605 @@ export class OrdamoSDK<T> {
       }
     }
 
-    if (message.eventType === "interactions" && this.onInteractions) {
-      this.onInteractions(message as InteractionsMessage);
+    if (message.eventType === "interactions") {
+      this._dispatchInteractions(message as InteractionsMessage);
+    }
+
+    if (message.eventType === "layout") {
+      this._receiveLayout((message as LayoutMessage).layout);
+    }
+
+    if (message.eventType === "pause") {
+      this._hostPaused = true;
+      this._updatePaused();
+    }
+
+    if (message.eventType === "resume") {
+      this._hostPaused = false;
+      this._updatePaused();
+    }
+
+    if (message.eventType === "saveState") {
+      this._saveState();
+    }
+
+    if (message.eventType === "navigate") {
+      this.trackEvent("navigate", { navigateButtonId: (message as NavigateMessage).navigateButtonId });
+      if (this.onNavigate) {
+        this.onNavigate(message as NavigateMessage);
+      }
+    }
+
+    if (message.eventType === "appResult") {
+      let appResult = message as AppResultMessage;
+      if (this.onAppResult) {
+        this.onAppResult(appResult.appId, appResult.result === undefined ? null : appResult.result, appResult.requestId);
+      }
     }
 
-    if (message.eventType === "navigate" && this.onNavigate) {
-      this.onNavigate(message as NavigateMessage);
+    if (message.eventType === "error") {
+      console.error(`Ordamo SDK: the host reported an error: ${(message as ErrorMessage).message}`);
     }
   }
 
   private _initialiseHostedMode() {
     window.addEventListener("message", this._handleParentMessage.bind(this));
+    this._sendLoadMessage();
+    this._startHeartbeat();
+  }
+
+  protected _sendLoadMessage() {
     let loadMessage: LoadMessage = {
       eventType: "load",
-      fullscreen: !!this._fullscreen
+      fullscreen: !!this._fullscreen,
+      protocolVersion: PROTOCOL_VERSION
     };
-    this._sendParentMessage(loadMessage);
+    this._sendMessage(loadMessage);
   }
 
-  private _sendParentMessage(message: Message) {
-    parent.postMessage(message, "*");
-  }
-
-  private _initialiseDevelopmentMode() {
-    logNotice(`running in development mode.`);
-
-    let isGoogle = navigator.vendor && navigator.vendor.indexOf("Google") === 0;
-    let chromeVersion = /\bChrome\/(\d+)/.exec(navigator.userAgent);
-    if (!(isGoogle && chromeVersion && parseInt(chromeVersion[1]) >= 46)) {
-      alert("Sorry, Ordamo V3 apps require a recent version of Google Chrome to run. Please load this app in Chrome, and/or ensure that your copy of Chrome is up to date.");
-      throw new Error(`Bad browser: ${navigator.vendor} ${navigator.userAgent}`);
+  private _reportProtocolError(message: string, receivedMessage: any) {
+    let error: ErrorMessage = {
+      eventType: "error",
+      errorType: "protocol",
+      message,
+      protocolVersion: PROTOCOL_VERSION
+    };
+    if (this._isHosted()) {
+      this._sendMessage(error);
     }
-
-    if (location.href.indexOf("file:") === 0) {
-      alert(`Ordamo V3 apps must be run from a web server to function correctly - the address must start "http:" or "https:", not "file:".`);
-      throw new Error(`Bad browser: ${navigator.vendor} ${navigator.userAgent}`);
+    if (this.onProtocolError) {
+      this.onProtocolError(error, receivedMessage);
+    } else {
+      console.error(`Ordamo SDK: ${message}`, receivedMessage);
     }
+  }
 
-    let mockLayout = makeMockLayout();
-
-    this._receiveInitMessage({
-      eventType: "init",
-      content: null,
-      layout: mockLayout,
-      table: "1",
-      version: `0.${Math.round(Math.random() * 99999)}-MOCKVERSION-SDK-DEVMODE`,
-      sessionId: 1,
-      requiredWidth: 800,
-      requiredHeight: 600,
-    });
-
-    if (document.location.search.match(/\bmanualFullscreen=true/)) {
-      let goFullscreen = () => {
-        if (document.webkitFullscreenEnabled && !document.webkitFullscreenElement) {
-          document.body.webkitRequestFullScreen();
-        }
-      };
-      document.body.addEventListener("click", goFullscreen);
-      document.body.addEventListener("touchstart", goFullscreen);
-    }
+  /**
+   * Tell the host that the app is still responsive every HEARTBEAT_INTERVAL_SECONDS, so
+   * that it can restart the app if it hangs
+   */
+  protected _startHeartbeat() {
+    let beat = () => {
+      // the host's protocol version, and so whether it understands heartbeats, is not
+      // known until the init message arrives
+      if (this._initMessage) {
+        this._sendMessage({ eventType: "heartbeat" });
+      }
+      this._setTimeout(beat, HEARTBEAT_INTERVAL_SECONDS * 1000);
+    };
+    beat();
   }
 
-  private _requireInitMessage() {
-    if (!this._initMessage) {
-      throw new Error("The SDK has not initialised yet.");
-    }
+  /**
+   * Report errors that the app doesn't catch to the host, or in development mode display
+   * them over the app
+   */
+  private _startErrorReporting() {
+    window.addEventListener("error", (e: ErrorEvent) => {
+      let location = e.filename ? `${e.filename}:${e.lineno}:${e.colno}` : undefined;
+      this._reportUncaughtError(e.message || "Unknown error", e.error, location);
+    });
+    window.addEventListener("unhandledrejection", (e: Event) => {
+      let reason = (e as any).reason;
+      let description = reason instanceof Error ? reason.message : String(reason);
+      this._reportUncaughtError(`Unhandled promise rejection: ${description}`, reason);
+    });
   }
 
-  private _receiveInitMessage(message: InitMessage): void {
-    if (this._initMessage) {
-      logError("Duplicate init message received, ignoring");
+  /**
+   * Send an "uncaught" error message to the host, see ErrorMessage
+   */
+  private _reportUncaughtError(message: string, error?: any, location?: string) {
+    if (this._reportedErrorCount >= MAX_REPORTED_ERRORS) {
       return;
     }
-    this._initMessage = message;
-    this._restoreState();
-    if (message.content || !this._contentSchema) {
-      this._finishInitialisation();
-    } else {
-      this._loadDefaultContentFile();
+    this._reportedErrorCount++;
+    let errorMessage: ErrorMessage = {
+      eventType: "error",
+      errorType: "uncaught",
+      message,
+      protocolVersion: PROTOCOL_VERSION,
+      stack: error instanceof Error ? error.stack : undefined,
+      location,
+      appVersion: this._initMessage ? this._initMessage.version : undefined,
+      table: this._initMessage ? this._initMessage.table : undefined
+    };
+    if (this._isHosted()) {
+      this._sendMessage(errorMessage);
+    } else if (RUNNING_MODE === RunningMode.DEVELOPMENT) {
+      this._showErrorOverlay(errorMessage);
+    }
+  }
+
+  /**
+   * List uncaught errors in a panel over the app until it is clicked
+   */
+  private _showErrorOverlay(error: ErrorMessage) {
+    if (!this._errorOverlay) {
+      let overlay = this._errorOverlay = document.createElement("div");
+      overlay.style.cssText = "position: fixed; left: 0; top: 0; right: 0; max-height: 50%; overflow-y: auto; z-index: 2147483647; " +
+        "padding: 10px; background: rgba(160, 0, 0, 0.9); color: #FFF; font: 14px monospace; white-space: pre-wrap; cursor: pointer;";
+      overlay.title = "Click to dismiss";
+      overlay.addEventListener("click", () => {
+        document.body.removeChild(overlay);
+        this._errorOverlay = null;
+      });
+      document.body.appendChild(overlay);
+    }
+    let entry = document.createElement("div");
+    entry.style.marginBottom = "10px";
+    let lines = [`Uncaught error: ${error.message}`];
+    if (error.location) {
+      lines.push(`at ${error.location}`);
+    }
+    if (error.stack) {
+      lines.push(error.stack);
+    }
+    entry.textContent = lines.join("\n");
+    this._errorOverlay.appendChild(entry);
+  }
+
+  /**
+   * Save state when the page is torn down, and pause while it is hidden
+   */
+  private _startLifecycleEvents() {
+    window.addEventListener("pagehide", () => {
+      this._saveState();
+      this._flushAnalytics();
+    });
+    document.addEventListener("visibilitychange", () => {
+      this._pageHidden = document.hidden;
+      this._updatePaused();
+    });
+  }
+
+  /**
+   * The app is paused while the host has paused it or the page is hidden, and onPause and
+   * onResume are only called when that changes
+   */
+  private _updatePaused() {
+    let paused = this._hostPaused || this._pageHidden;
+    if (paused === this._paused) {
+      return;
+    }
+    this._paused = paused;
+    if (paused) {
+      this._saveState();
+      this._flushAnalytics();
+      if (this.onPause) {
+        this.onPause();
+      }
+    } else if (this.onResume) {
+      this.onResume();
+    }
+  }
+
+  /**
+   * Send a message to the host, unless the negotiated protocol version does not support it
+   */
+  private _sendMessage(message: Message) {
+    if (!isSupportedByProtocolVersion(message.eventType, this._protocolVersion)) {
+      if (this._unsupportedEventTypes.indexOf(message.eventType) === -1) {
+        this._unsupportedEventTypes.push(message.eventType);
+        logNotice(`Not sending "${message.eventType}" messages, the host speaks protocol version ${this._protocolVersion} which does not support them.`);
+      }
+      return;
+    }
+    this._sendParentMessage(message);
+  }
+
+  protected _sendParentMessage(message: Message) {
+    parent.postMessage(message, "*");
+  }
+
+  /**
+   * Return true if messages should be sent to a host. The test harness overrides this,
+   * and the timer methods below, so that apps can be tested without a browser.
+   */
+  protected _isHosted(): boolean {
+    return RUNNING_MODE === RunningMode.HOSTED;
+  }
+
+  protected _setTimeout(callback: () => void, milliseconds: number): void {
+    setTimeout(callback, milliseconds);
+  }
+
+  protected _now(): number {
+    return Date.now();
+  }
+
+  private _initialiseDevelopmentMode() {
+    logNotice(`running in development mode.`);
+
+    let isGoogle = navigator.vendor && navigator.vendor.indexOf("Google") === 0;
+    let chromeVersion = /\bChrome\/(\d+)/.exec(navigator.userAgent);
+    if (!(isGoogle && chromeVersion && parseInt(chromeVersion[1]) >= 46)) {
+      alert("Sorry, Ordamo V3 apps require a recent version of Google Chrome to run. Please load this app in Chrome, and/or ensure that your copy of Chrome is up to date.");
+      throw new Error(`Bad browser: ${navigator.vendor} ${navigator.userAgent}`);
+    }
+
+    if (location.href.indexOf("file:") === 0) {
+      alert(`Ordamo V3 apps must be run from a web server to function correctly - the address must start "http:" or "https:", not "file:".`);
+      throw new Error(`Bad browser: ${navigator.vendor} ${navigator.userAgent}`);
+    }
+
+    this._startMockLayoutChanges();
+
+    logNotice("Analytics events are logged to the console. Press Alt+A to download them as a JSON file.");
+    window.addEventListener("keydown", (e: KeyboardEvent) => {
+      if (e.altKey && e.key.toLowerCase() === "a") {
+        e.preventDefault();
+        this.downloadAnalyticsLog();
+      }
+    });
+
+    logNotice("Press Alt+R to start recording touch events, and again to download the recording.");
+    window.addEventListener("keydown", (e: KeyboardEvent) => {
+      if (e.altKey && e.key.toLowerCase() === "r" && this._initMessage) {
+        e.preventDefault();
+        if (this._touchRecorder) {
+          downloadJSONFile("touch-recording.json", this.stopTouchRecording());
+          logNotice("Touch recording stopped. Replay it with the URL parameter ?replayTouches=path/to/touch-recording.json");
+        } else {
+          this.startTouchRecording();
+          logNotice("Recording touch events...");
+        }
+      }
+    });
+
+    loadTouchRecording(recording => loadMockLayout(mockLayout => {
+      // the touches in a recording only make sense on the layout they were recorded on
+      this._touchRecordingToReplay = recording;
+      this._receiveInitMessage({
+        eventType: "init",
+        content: null,
+        layout: recording ? recording.layout : mockLayout,
+        table: "1",
+        protocolVersion: PROTOCOL_VERSION,
+        version: `0.${Math.round(Math.random() * 99999)}-MOCKVERSION-SDK-DEVMODE`,
+        sessionId: 1,
+        requiredWidth: 800,
+        requiredHeight: 600,
+        locales: getQueryParam("locale") ? getQueryParam("locale").split(",") : undefined,
+        launchParams: getMockLaunchParams()
+      });
+    }));
+
+    if (document.location.search.match(/\bmanualFullscreen=true/)) {
+      let goFullscreen = () => {
+        if (document.webkitFullscreenEnabled && !document.webkitFullscreenElement) {
+          document.body.webkitRequestFullScreen();
+        }
+      };
+      document.body.addEventListener("click", goFullscreen);
+      document.body.addEventListener("touchstart", goFullscreen);
+    }
+  }
+
+  /**
+   * Let developers test onLayoutChange by adding and removing diners from the keyboard and
+   * resizing the window
+   */
+  private _startMockLayoutChanges() {
+    let numPlateSpots: number = undefined;
+    let update = () => {
+      if (this._initMessage && !getQueryParam("layoutFile") && !getQueryParam("replayTouches")) {
+        this._receiveLayout(makeMockLayout(numPlateSpots));
+      }
+    };
+    logNotice("Press Alt+= to add a diner to the mock layout and Alt+- to remove one.");
+    window.addEventListener("keydown", (e: KeyboardEvent) => {
+      if (e.altKey && (e.key === "=" || e.key === "-")) {
+        e.preventDefault();
+        let current = this._initMessage ? this._initMessage.layout.plateSpots.length : 0;
+        numPlateSpots = Math.max(0, current + (e.key === "=" ? 1 : -1));
+        update();
+      }
+    });
+    let resizeTimeout: number;
+    window.addEventListener("resize", () => {
+      clearTimeout(resizeTimeout);
+      resizeTimeout = window.setTimeout(update, 250);
+    });
+  }
+
+  private _receiveLayout(layout: Layout) {
+    if (!this._initMessage) {
+      console.error("Layout message received before init message, ignoring");
+      return;
+    }
+    let oldLayout = this._initMessage.layout;
+    this._initMessage.layout = layout;
+    this._applyElementBindings();
+    if (this.onLayoutChange) {
+      this.onLayoutChange(layout, oldLayout, diffLayouts(oldLayout, layout));
+    }
+  }
+
+  private _requireInitMessage() {
+    if (!this._initMessage) {
+      throw new Error("The SDK has not initialised yet.");
+    }
+  }
+
+  private _receiveInitMessage(message: InitMessage): void {
+    if (this._initMessage) {
+      logError("Duplicate init message received, ignoring");
+      return;
+    }
+    // a host newer than this SDK may ignore our version, so negotiate here too
+    this._protocolVersion = negotiateProtocolVersion(getProtocolVersion(message));
+    this._initMessage = message;
+    this._menuNodes = message.menuNodes || null;
+    this._initTime = this._now();
+    this._stateStorage = this._createStateStorage();
+    this._restoreState();
+    if (message.content || !this._contentSchema) {
+      this._finishInitialisation();
+    } else {
+      this._loadDefaultContentFile();
     }
   }
 
   private _finishInitialisation() {
 
     if (this._contentSchema) {
+      let content = migrateContent(this._initMessage.content, getContentSchemaVersion(this._contentMigrations), this._contentMigrations);
       this._content = JSON.parse(JSON.stringify(this._contentSchema));
       for (let prop in this._content) {
-        this._content[prop].value = this._initMessage.content[prop];
+        if (!(prop in content)) {
+          console.error(`The content has no value for "${prop}". If it has been renamed, add a migration to the contentMigrations option.`);
+        }
+        setDescriptorValue(this._content[prop], content[prop]);
       }
     }
 
+    this.trackEvent("launch", { plateSpotCount: this._initMessage.layout.plateSpots.length, locale: this.getLocale() });
+
     if (this._initCallback) {
       this._initCallback();
     }
 
 
     const TIMEOUT_SECONDS = 5;
-    setTimeout(() => {
+    this._setTimeout(() => {
       if (!this._sentReadyEvent) {
         console.error(`WARNING: this app is taking too long to be ready. It should render in less than ${TIMEOUT_SECONDS} seconds then call notifyAppIsReady().`);
       }
     }, TIMEOUT_SECONDS * 1000);
   }
 
+  /**
+   * Load the default content, and the information about its videos unless the host sent
+   * it, from the files written by build-content
+   */
   private _loadDefaultContentFile() {
-    const DEFAULT_CONTENT_FILE = `default-content.json?version=${encodeURIComponent(this._initMessage.version)}`;
+    this._loadBuildFile("default-content.json", content => {
+      if (!content) {
+        return;
+      }
+      this._initMessage.content = content;
+      if (this._initMessage.videoInfo) {
+        this._finishInitialisation();
+        return;
+      }
+      this._loadBuildFile("video-info.json", videoInfo => {
+        this._initMessage.videoInfo = videoInfo || {};
+        this._finishInitialisation();
+      });
+    });
+  }
+
+  /**
+   * Load a JSON file from the app's build folder, calling back with null if it can't be
+   * loaded
+   */
+  private _loadBuildFile(fileName: string, callback: (value: any) => void) {
+    const FILE = `${fileName}?version=${encodeURIComponent(this._initMessage.version)}`;
     let xhr = new XMLHttpRequest();
-    xhr.open("GET", DEFAULT_CONTENT_FILE, true);
+    xhr.open("GET", FILE, true);
     xhr.onreadystatechange = () => {
       if (xhr.readyState === 4) {
+        let value: any = null;
         if (xhr.status === 200) {
-          let content: any;
           try {
-            content = JSON.parse(xhr.responseText);
+            value = JSON.parse(xhr.responseText);
           } catch (e) {
-            console.error(`${DEFAULT_CONTENT_FILE} is not a valid JSON file, check the console for more info`);
+            console.error(`${FILE} is not a valid JSON file, check the console for more info`);
             console.error(e);
             logNotice("This content is not JSON", xhr.responseText);
           }
-          if (content) {
-            this._initMessage.content = content;
-            this._finishInitialisation();
-          }
         }
         else {
-          console.error(`Failed to load "${DEFAULT_CONTENT_FILE}", is the development server running (npm start)`);
+          console.error(`Failed to load "${FILE}", is the development server running (npm start)`);
         }
+        callback(value);
       }
     };
     xhr.send();
   }
 
   private _saveState() {
-    if (this._saveStateCallback) {
+    if (this._saveStateCallback && this._initMessage) {
       let storedForm: StoredState = {
-        timestamp: Date.now(),
+        timestamp: this._now(),
         state: this._saveStateCallback(),
         appVersion: this._initMessage.version,
         sessionId: this._initMessage.sessionId
       };
-      sessionStorage.setItem(this._getSavedStateKey(), JSON.stringify(storedForm));
+      this._stateStorage.setItem(this._getSavedStateKey(), JSON.stringify(storedForm));
     }
   }
 
   private _restoreState() {
-    let storedForm = sessionStorage.getItem(this._getSavedStateKey());
+    let storedForm = this._stateStorage.getItem(this._getSavedStateKey());
     if (storedForm) {
       try {
         let save: StoredState = JSON.parse(storedForm);
-        if (save.appVersion !== this._initMessage.version) {
-          logNotice(`Ignoring saved state, app version has changed from "${save.appVersion}" to "${this._initMessage.version}".`);
-          this._clearState();
-        } else if (save.sessionId !== this._initMessage.sessionId) {
+        if (save.sessionId !== this._initMessage.sessionId) {
           logNotice(`Ignoring saved state, session has changed.`);
           this._clearState();
-        } else if (Date.now() - save.timestamp > MAX_SAVED_STATE_SECONDS * 1000) {
-          logNotice(`Ignoring saved state older than ${MAX_SAVED_STATE_SECONDS} seconds.`);
+        } else if (this._now() - save.timestamp > this._savedStateExpirySeconds * 1000) {
+          logNotice(`Ignoring saved state older than ${this._savedStateExpirySeconds} seconds.`);
+          this._clearState();
+        } else if (save.appVersion !== this._initMessage.version && !this._migrateSavedState) {
+          logNotice(`Ignoring saved state, app version has changed from "${save.appVersion}" to "${this._initMessage.version}".`);
           this._clearState();
+        } else if (save.appVersion !== this._initMessage.version) {
+          let state = this._migrateSavedState(save.appVersion, save.state);
+          if (state === null || state === undefined) {
+            logNotice(`Ignoring saved state, migrateSavedState discarded the state saved by version "${save.appVersion}".`);
+            this._clearState();
+          } else {
+            this._savedState = state;
+          }
         } else {
           this._savedState = save.state;
         }
       } catch (e) {
-        console.error("Error parsing save data, wiping saved state", e, storedForm);
+        console.error("Error restoring save data, wiping saved state", e, storedForm);
         this._clearState();
       }
     }
   }
 
+  private _createStateStorage(): StateStorage {
+    let option = this._stateStorageOption;
+    if (typeof option !== "string") {
+      return option as StateStorage;
+    }
+    if (option === "host" && this._isHosted()) {
+      return new HostStateStorage(this._initMessage.storedState || {}, (key, value) => {
+        let message: StoreStateMessage = { eventType: "storeState", key, value };
+        this._sendMessage(message);
+      });
+    }
+    if (option === "host") {
+      logNotice(`Using sessionStorage instead of host state storage in development mode.`);
+    }
+    return option === "local" ? localStorage : sessionStorage;
+  }
+
   private _clearState() {
-    sessionStorage.removeItem(this._getSavedStateKey());
+    this._stateStorage.removeItem(this._getSavedStateKey());
+  }
+
+  /**
+   * Tag pending analytics events and send them to the host, or in development mode log
+   * them. Events tracked before the init message wait for it.
+   */
+  private _flushAnalytics() {
+    if (!this._initMessage || this._pendingAnalyticsEvents.length === 0) {
+      return;
+    }
+    let events: AnalyticsEvent[] = this._pendingAnalyticsEvents.map(pending => ({
+      name: pending.name,
+      properties: pending.properties,
+      timestamp: pending.timestamp,
+      table: this._initMessage.table,
+      sessionId: this._initMessage.sessionId,
+      appVersion: this._initMessage.version
+    }));
+    this._pendingAnalyticsEvents = [];
+    if (this._isHosted()) {
+      let message: AnalyticsMessage = { eventType: "analytics", events };
+      this._sendMessage(message);
+    } else if (RUNNING_MODE === RunningMode.DEVELOPMENT) {
+      for (let event of events) {
+        logNotice(`analytics event "${event.name}"`, event.properties);
+      }
+      this._analyticsLog.push(...events);
+    }
+  }
+
+
+
+  private _applyElementBindings() {
+    for (let binding of this._elementBindings) {
+      let shape = findPlacementShape(this._initMessage.layout, binding.target);
+      if (shape) {
+        binding.element.style.display = "";
+        placeElement(binding.element, shape, binding.options);
+      } else {
+        binding.element.style.display = "none";
+      }
+    }
   }
 
+  /**
+   * Attribute touches to diners if the layout is known, then pass them to onInteractions
+   * and onDinerInteraction
+   */
+  private _dispatchInteractions(message: InteractionsMessage) {
+    if (this._touchRecorder) {
+      message.touchEvents.forEach(touchEvent => this._touchRecorder.record(touchEvent));
+    }
+    if (this._initMessage) {
+      let layout = this._initMessage.layout;
+      message = Object.assign({}, message, {
+        touchEvents: message.touchEvents.map(touchEvent => attributeTouchEvent(layout, touchEvent))
+      });
+    }
+    if (this.onInteractions) {
+      this.onInteractions(message);
+    }
+    if (this.onDinerInteraction) {
+      for (let touchEvent of message.touchEvents) {
+        let plateSpotIds: number[] = [];
+        for (let touch of touchEvent.changedTouches) {
+          if (touch.nearestPlateSpotId !== undefined && plateSpotIds.indexOf(touch.nearestPlateSpotId) === -1) {
+            plateSpotIds.push(touch.nearestPlateSpotId);
+          }
+        }
+        for (let plateSpotId of plateSpotIds) {
+          this.onDinerInteraction(plateSpotId, touchEvent);
+        }
+      }
+    }
+  }
 
+  /**
+   * Dispatch recorded touch events on the elements under them at the times they were
+   * recorded, measured from when the app became ready, as if a diner was touching the
+   * table. They reach onInteractions through the same route as emulated touch events.
+   */
+  private _replayTouchRecording(recording: TouchRecording) {
+    this._touchRecordingToReplay = null;
+    if (recording.events.length === 0) {
+      logNotice("The touch recording has no events, so there is nothing to replay.");
+      return;
+    }
+    logNotice(`Replaying ${recording.events.length} recorded touch events.`);
+    let targets: { [identifier: number]: HTMLElement } = {};
+    recording.events.forEach((event, i) => {
+      this._setTimeout(() => {
+        dispatchRecordedTouchEvent(event.touchEvent, targets);
+        if (i === recording.events.length - 1) {
+          logNotice("Finished replaying touch events.");
+        }
+      }, event.time);
+    });
+  }
 
   /**
    * Supresses mouse events and convert them to touch events
@@ -489,23 +1438,43 @@ export class OrdamoSDK<T> {
     if (RUNNING_MODE === RunningMode.DEVELOPMENT && !this._fullscreen) {
       logNotice("Supressing touch events because this app is not fullscreen. Background apps can use OrdamoSDK.onInteractions instead.");
     }
+    if (RUNNING_MODE === RunningMode.DEVELOPMENT) {
+      logNotice("Emulating touch events with the mouse. Shift-drag to pinch, Alt-drag to rotate, Ctrl-click to pin a finger in place and Escape to lift pinned fingers.");
+    }
 
     let interceptTouchEvent = (e: TouchEvent) => {
       if (!this._fullscreen) {
         e.stopPropagation();
         e.preventDefault();
       }
-      if (this.onInteractions) {
-        this.onInteractions(makeInteractionsMessage([e]));
-      }
+      this._dispatchInteractions(makeInteractionsMessage([e]));
     };
 
     document.body.addEventListener("touchstart", interceptTouchEvent, true);
     document.body.addEventListener("touchmove", interceptTouchEvent, true);
     document.body.addEventListener("touchend", interceptTouchEvent, true);
+    document.body.addEventListener("touchcancel", interceptTouchEvent, true);
+  }
+}
+
+/**
+ * Set the value of a content descriptor, and of the fields of groups so that
+ * `content.dish.fields.name.value` works as well as `content.dish.value.name`
+ */
+function setDescriptorValue(descriptor: ContentDescriptor<any>, value: any) {
+  descriptor.value = value;
+  if (descriptor.type === "group") {
+    let fields = (descriptor as ContentDescriptor<any> & GroupOptions<ContentSchema>).fields;
+    for (let name in fields) {
+      setDescriptorValue(fields[name], value ? value[name] : undefined);
+    }
   }
 }
 
+function getLanguage(locale: string) {
+  return locale.split("-")[0].toLowerCase();
+}
+
 function logError(message: string) {
   if (RUNNING_MODE === RunningMode.HOSTED) {
     console.error(message);
@@ -514,8 +1483,11 @@ function logError(message: string) {
   }
 }
 
-interface StoredState {
-  state: string;
+/**
+ * The form in which saved state is kept in state storage, JSON encoded
+ */
+export interface StoredState {
+  state: any;
   timestamp: number;
   appVersion: string;
   sessionId: number;
@@ -549,6 +1521,65 @@ export interface ContentDescriptor<T> extends ContentFieldOptions {
   value?: T;
 }
 
+/**
+ * A map of content descriptors, as passed to the contentSchema option
+ */
+export interface ContentSchema {
+  [key: string]: ContentDescriptor<any>;
+}
+
+/**
+ * The type of the object returned by OrdamoSDK.getContentValues(), mapping each
+ * property of a content schema to the type of its value.
+ */
+export type ContentValues<T extends ContentSchema> = {
+  [K in keyof T]: T[K]["value"];
+};
+
+/**
+ * The property of content-schema.json and of content objects that records the version of
+ * the content schema that they were created with. Content without it is version 1.
+ */
+export const CONTENT_SCHEMA_VERSION_KEY = "$schemaVersion";
+
+/**
+ * A map of functions that upgrade content to a version of the content schema, keyed by
+ * that version. Each function is passed the content at the previous version and returns
+ * the upgraded content.
+ */
+export interface ContentMigrations {
+  [toVersion: number]: (content: any) => any;
+}
+
+/**
+ * Return the version of the content schema that a set of migrations upgrades content to,
+ * which is the highest version in the map, or 1 if it is empty
+ */
+export function getContentSchemaVersion(migrations: ContentMigrations = {}): number {
+  return Object.keys(migrations).reduce((max, version) => Math.max(max, parseInt(version)), 1);
+}
+
+/**
+ * Upgrade content to the given version of the content schema by applying each migration
+ * between its current version and the target version in order. The content passed in is
+ * not modified.
+ */
+export function migrateContent(content: any, toVersion: number, migrations: ContentMigrations): any {
+  let fromVersion = content[CONTENT_SCHEMA_VERSION_KEY] || 1;
+  if (fromVersion > toVersion) {
+    console.error(`The content was created with version ${fromVersion} of the content schema, but this app uses version ${toVersion}. Migrating content to an earlier version is not supported.`);
+    return content;
+  }
+  let migrated = JSON.parse(JSON.stringify(content));
+  for (let version = fromVersion + 1; version <= toVersion; version++) {
+    if (migrations[version]) {
+      migrated = migrations[version](migrated);
+    }
+  }
+  migrated[CONTENT_SCHEMA_VERSION_KEY] = toVersion;
+  return migrated;
+}
+
 export interface ImageOptions {
   /**
    * Minumum width of the image in pixels
@@ -572,11 +1603,24 @@ export interface ImageOptions {
   aspectRatio?: number;
   /**
    * If true, this "image" must be a video file capable of being played
-   * by an HTML video element.
+   * by an HTML video element. The size constraints apply to the video's
+   * pixel dimensions.
    */
   isVideo?: boolean;
 }
 
+/**
+ * A content value with one version per locale, e.g. {en: "Hello", fr: "Bonjour"}
+ */
+export interface Localized<T> {
+  [locale: string]: T;
+}
+
+/**
+ * The locale used if the host does not provide any
+ */
+export const DEFAULT_LOCALE = "en";
+
 export interface TextOptions {
   /**
    * Minumum number of characters in the text
@@ -594,6 +1638,11 @@ export interface TextOptions {
    * Optional string structure validation
    */
   validation?: TextValidationOptions;
+  /**
+   * If true, the value has one version per locale listed in the app's metadata, see
+   * localizedText() and OrdamoSDK.localize()
+   */
+  localized?: boolean;
 }
 
 export interface NumberOptions {
@@ -627,40 +1676,183 @@ export interface TextValidationOptions {
   validExamples: string;
 }
 
-export interface ListOptions<O> {
-  /**
-   * The inclusive minumum number of items in the list
-   */
-  minCount: number;
+export interface BooleanOptions {
   /**
-   * The inclusive maximum number of items in the list
+   * Optional label for the true value in the CMS, defaults to "Yes"
    */
-  maxCount: number;
+  trueLabel?: string;
   /**
-   * An options object describing individual children
+   * Optional label for the false value in the CMS, defaults to "No"
    */
-  items: O;
+  falseLabel?: string;
 }
 
-/**
- * Helper function for defining content managed images.
- */
-export function image(options: ImageOptions & ContentFieldOptions): ContentDescriptor<string> & ImageOptions {
-  return Object.assign({ type: "image" }, options);
+export interface ColorOptions {
+  /**
+   * Whether the colour may be partially transparent. Colours are "#RRGGBB" strings, or
+   * "#RRGGBBAA" if this option is true.
+   */
+  allowTransparency?: boolean;
 }
 
-/**
- * Helper function for defining content managed text strings.
- */
-export function text(options: TextOptions & ContentFieldOptions): ContentDescriptor<string> & TextOptions {
-  return Object.assign({ type: "text" }, options);
+export interface ChoiceOptions {
+  /**
+   * The values that the CMS user can choose between
+   */
+  options: ChoiceOption[];
 }
 
-/**
- * Helper function for defining content managed numbers.
- */
-export function number(options: NumberOptions & ContentFieldOptions): ContentDescriptor<number> & NumberOptions {
-  return Object.assign({ type: "number" }, options);
+export interface ChoiceOption {
+  /**
+   * The value provided to the app if this option is chosen
+   */
+  value: string;
+  /**
+   * A short name for the option in the CMS, e.g. "Summer theme"
+   */
+  label: string;
+}
+
+export interface DateOptions {
+  /**
+   * Optional inclusive earliest date, in "YYYY-MM-DD" format
+   */
+  minDate?: string;
+  /**
+   * Optional inclusive latest date, in "YYYY-MM-DD" format
+   */
+  maxDate?: string;
+}
+
+export interface RichTextOptions {
+  /**
+   * Minumum number of characters in the text, not counting markup
+   */
+  minLength: number;
+  /**
+   * Maximum number of characters in the text, not counting markup
+   */
+  maxLength: number;
+}
+
+/**
+ * The HTML tags permitted in rich text content. Tags may not have attributes.
+ */
+export const RICH_TEXT_TAGS = ["b", "strong", "i", "em", "u", "p", "br"];
+
+export interface ListOptions<O> {
+  /**
+   * The inclusive minumum number of items in the list
+   */
+  minCount: number;
+  /**
+   * The inclusive maximum number of items in the list
+   */
+  maxCount: number;
+  /**
+   * An options object describing individual children. This is a template shared by all
+   * items, so it has no value of its own even when it is a group: read the items from the
+   * list's value.
+   */
+  items: O;
+}
+
+export interface GroupOptions<F> {
+  /**
+   * The descriptors of the fields in the group, created using the sdk content functions
+   * e.g. {name: sdk.text(...), price: sdk.number(...)}
+   */
+  fields: F;
+}
+
+export interface ObjectListOptions<F> extends GroupOptions<F> {
+  /**
+   * The inclusive minumum number of items in the list
+   */
+  minCount: number;
+  /**
+   * The inclusive maximum number of items in the list
+   */
+  maxCount: number;
+}
+
+/**
+ * Helper function for defining content managed images.
+ */
+export function image(options: ImageOptions & ContentFieldOptions): ContentDescriptor<string> & ImageOptions {
+  return Object.assign({ type: "image" }, options);
+}
+
+/**
+ * Helper function for defining content managed text strings.
+ */
+export function text(options: TextOptions & ContentFieldOptions): ContentDescriptor<string> & TextOptions {
+  return Object.assign({ type: "text" }, options);
+}
+
+/**
+ * Helper function for defining content managed numbers.
+ */
+export function number(options: NumberOptions & ContentFieldOptions): ContentDescriptor<number> & NumberOptions {
+  return Object.assign({ type: "number" }, options);
+}
+
+/**
+ * Helper function for defining content managed on/off switches.
+ */
+export function boolean(options: BooleanOptions & ContentFieldOptions): ContentDescriptor<boolean> & BooleanOptions {
+  return Object.assign({ type: "boolean" }, options);
+}
+
+/**
+ * Helper function for defining content managed colours.
+ */
+export function color(options: ColorOptions & ContentFieldOptions): ContentDescriptor<string> & ColorOptions {
+  return Object.assign({ type: "color" }, options);
+}
+
+/**
+ * Helper function for defining a content managed choice between a fixed set of strings.
+ */
+export function choice(options: ChoiceOptions & ContentFieldOptions): ContentDescriptor<string> & ChoiceOptions {
+  return Object.assign({ type: "choice" }, options);
+}
+
+/**
+ * Helper function for defining content managed dates in "YYYY-MM-DD" format.
+ */
+export function date(options: DateOptions & ContentFieldOptions): ContentDescriptor<string> & DateOptions {
+  return Object.assign({ type: "date" }, options);
+}
+
+/**
+ * Helper function for defining content managed HTML text, limited to the tags in RICH_TEXT_TAGS.
+ */
+export function richText(options: RichTextOptions & ContentFieldOptions): ContentDescriptor<string> & RichTextOptions {
+  return Object.assign({ type: "richtext" }, options);
+}
+
+/**
+ * Helper function for defining a record of related content, e.g. a dish with a
+ * name, price and photo. The value is an object with one property per field.
+ */
+export function group<F extends ContentSchema>(options: GroupOptions<F> & ContentFieldOptions): ContentDescriptor<ContentValues<F>> & GroupOptions<F> {
+  return Object.assign({ type: "group" }, options);
+}
+
+/**
+ * Helper function for defining lists of content managed records, e.g. the dishes on a menu.
+ * This is a list whose items are groups, see group().
+ */
+export function objectList<F extends ContentSchema>(options: ObjectListOptions<F> & ContentFieldOptions): ContentDescriptor<ContentValues<F>[]> & ListOptions<GroupOptions<F>> {
+  return {
+    type: "list",
+    title: options.title,
+    helpText: options.helpText,
+    minCount: options.minCount,
+    maxCount: options.maxCount,
+    items: Object.assign({ type: "group" }, { fields: options.fields })
+  };
 }
 
 /**
@@ -671,6 +1863,24 @@ export function textList(options: ListOptions<TextOptions> & ContentFieldOptions
   return Object.assign({ type: "list" }, options);
 }
 
+/**
+ * Helper function for defining content managed text strings that are translated into
+ * every locale in AppMetadata.locales, e.g. {en: "Hello", fr: "Bonjour"}. Use
+ * OrdamoSDK.localize() to get the text in the diners' locale.
+ */
+export function localizedText(options: TextOptions & ContentFieldOptions): ContentDescriptor<Localized<string>> & TextOptions {
+  return Object.assign({ type: "text" }, options, { localized: true });
+}
+
+/**
+ * Helper function for defining lists of translated content managed text strings,
+ * see localizedText().
+ */
+export function localizedTextList(options: ListOptions<TextOptions> & ContentFieldOptions): ContentDescriptor<Localized<string>[]> & ListOptions<TextOptions> {
+  options.items = Object.assign({ type: "text" }, options.items, { localized: true });
+  return Object.assign({ type: "list" }, options);
+}
+
 /**
  * Helper function for defining lists of content managed images.
  */
@@ -732,333 +1942,173 @@ export interface AppMetadata {
    * the app will not be available for users to select through the navigation menu 
    */
   requiredHeight?: number;
-}
-
-
-export interface MenuNode {
   /**
-   * Reqired only if launchAppId is present. Uniquely identify this app instance 
-   * for content management purposes.
-   */
-  id?: string;
-
-  /**
-   * An icon used for the menu node. THIS IS REQUIRED unless launchAppId is used, in which case
-   * it may be optionally ommitted and the app's default icon will be used in place.
-   * A 250x250px image encoded as a data uri.
+   * The locales that localized content must be provided in, e.g. ["en", "fr"]. Required if
+   * the content schema contains localized fields.
    */
-  iconSrc?: string;
-
-  /**
-   * If present, clicking this menu item will open up a new level of items below it.
-   */
-  children?: MenuNode[];
-
+  locales?: string[];
   /**
-   * If present, clicking this menu item will cause the SDK's onNavigate callback to be
-   * fired with this string as an argument.
+   * The version of the content schema, set by build-content from the contentMigrations
+   * exported by content-schema.ts. Content created in the CMS should record it in the
+   * CONTENT_SCHEMA_VERSION_KEY property.
    */
-  navigateButtonId?: string;
-
-  /**
-   * If true, this indicates that the app must have custom content in order to be shown to customers.
-   * If no custom content is assigned to the app, it will be hidden in the menu.
-   */
-  contentRequired?: boolean;
-
-  /**
-   * If present, clicking this menu item will cause the app of the specified ID to be
-   * launched. WARNING: this is an advanced feature intended for use when several related
-   * apps are controlled by a single "master" app. Most app authors do not need to use it.
-   */
-  launchAppId?: string;
-
-  /**
-   * If true, clicking this item will close the menu.
-   */
-  closeMenu?: boolean;
+  contentSchemaVersion?: number;
 }
 
+
 //
-// MESSAGE TYPES
+// DEVELOPMENT UTILITIES
 //
 
-export interface Message {
-  eventType: string;
-}
-
-/**
- * Sent from app to host to indicate that the app has loaded and is ready
- * to receive the "init" message.
- */
-export interface LoadMessage extends Message {
-  /**
-   * See OrdamoSDKOptions::fullscreen
-   */
-  fullscreen: boolean;
+function logNotice(message: string, ...additional: any[]) {
+  console.log(`Ordamo SDK: ${message}`, ...additional);
 }
 
-/**
- * Sent from host to app with the information required by the app to render itself
- */
-export interface InitMessage extends Message {
-  content: any;
-  layout: Layout;
-
-  /**
-   * The table label, e.g. "1" or "D" (the format depends on restaurant, but it
-   * will be short - 3 characters or less)
-   */
-  table: string;
 
-  /**
-   * The app's version as defined in its metadata file for deployment
-   */
-  version: string;
-
-  /**
-   * A number that will change whenever a new group of people are seated at the table.
-   * It is used to decide whether to restore a saved session.
-   */
-  sessionId: number;
-  /**
-   * requiredWidth value from the app's metadata 
-   */
-  requiredWidth?: number;
-  /**
-   * requiredHeight value from the app's metadata
-   */
-  requiredHeight?: number;
+function getQueryParam(name: string): string {
+  let match = new RegExp(`[?&]${name}=([^&]*)`).exec(document.location.search);
+  return match ? decodeURIComponent(match[1]) : null;
 }
 
 /**
- * Describes the size of the table and the positions of diner places on it 
+ * Load the layout file named by the layoutFile URL parameter, relative to the app, or make
+ * a mock layout if there isn't one
  */
-export interface Layout {
-  /**
-   * The locations of diner places
-   */
-  plateSpots: Circle[];
-  widthPx: number;
-  heightPx: number;
-  resolutionPixelsPerCm: number;
-  /**
-   * "Safe areas" in which content such as images and videos can be rendered without being obscured
-   * by any other UI elements. All diners on the table will have one content area that is relatively
-   * close to them and rotated in their direction.
-   */
-  contentAreas: Rectangle[];
-}
-
-export interface Shape {
-  type: string;
-}
-
-export interface Circle extends Shape {
-  id: number;
-  x: number;
-  y: number;
-  radius: number;
-  borderWidth: number;
-  rotationDegrees: number;
+function loadMockLayout(callback: (layout: Layout) => void) {
+  let layoutFile = getQueryParam("layoutFile");
+  if (!layoutFile) {
+    callback(makeMockLayout());
+    return;
+  }
+  loadDevelopmentFile(layoutFile, "layout file", validateLayout, (layout: Layout) => {
+    if (layout) {
+      logNotice(`Using the layout from "${layoutFile}" with ${layout.plateSpots.length} plate spots and ${layout.contentAreas.length} content areas.`);
+    } else {
+      logNotice("Using a mock layout instead of the layout file.");
+    }
+    callback(layout || makeMockLayout());
+  });
 }
 
-export interface Rectangle extends Shape {
-  id: number;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  rotationDegrees: number;
+function getMockLaunchParams(): any {
+  let json = getQueryParam("launchParams");
+  if (!json) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(json);
+  } catch (e) {
+    console.error(`The launchParams URL parameter is not valid JSON, ignoring it: ${json}`);
+    return undefined;
+  }
 }
 
 /**
- * See OrdamoSDKOptions::onInteractions
+ * Load the touch recording named by the ?replayTouches= URL parameter, or call back with
+ * null if there is none
  */
-export interface InteractionsMessage extends Message {
-  touchEvents: CrossWindowTouchEvent[];
+function loadTouchRecording(callback: (recording: TouchRecording) => void) {
+  let recordingFile = getQueryParam("replayTouches");
+  if (!recordingFile) {
+    callback(null);
+    return;
+  }
+  loadDevelopmentFile(recordingFile, "touch recording", validateTouchRecording, callback);
 }
 
 /**
- * A cut down TouchEvent containing only propertis tyhat can be safely passed
- * between windows using postMessage.
- * 
- * Note that this means no DOM elements, therefore there is no event.target or
- * targetTouches
+ * Load and validate a JSON file named in a development mode URL parameter. Problems are
+ * logged to the console, and the callback is passed null.
  */
-export interface CrossWindowTouchEvent {
-  type: string;
-  touches: CrossWindowTouch[];
-  changedTouches: CrossWindowTouch[];
-  // no targetTouches - can't serialise DOM nodes
-  altKey: boolean;
-  ctrlKey: boolean;
-  metaKey: boolean;
-  shiftKey: boolean;
+function loadDevelopmentFile(file: string, description: string, validate: (data: any, path: string) => string[], callback: (data: any) => void) {
+  let xhr = new XMLHttpRequest();
+  xhr.open("GET", file, true);
+  xhr.onreadystatechange = () => {
+    if (xhr.readyState !== 4) {
+      return;
+    }
+    let data: any = null;
+    if (xhr.status !== 200) {
+      console.error(`Failed to load the ${description} "${file}"`);
+    } else {
+      try {
+        data = JSON.parse(xhr.responseText);
+      } catch (e) {
+        console.error(`The ${description} "${file}" is not valid JSON`, e);
+      }
+      let problems = data ? validate(data, file) : [];
+      if (problems.length > 0) {
+        console.error(`The ${description} "${file}" is invalid:\n  - ${problems.join("\n  - ")}`);
+        data = null;
+      }
+    }
+    callback(data);
+  };
+  xhr.send();
 }
 
-/**
- * A cut down Touch containing only propertis tyhat can be safely passed
- * between windows using postMessage
- */
-export interface CrossWindowTouch {
-  identifier: number;
-  clientX: number;
-  clientY: number;
+function downloadJSONFile(fileName: string, data: any) {
+  let blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+  let link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
 }
 
 /**
- * An interface implemented by both React.TouchEvent and the native TouchEvent
+ * Make a layout that fits the window, configured by URL parameters. The number of plate
+ * spots can be overridden to simulate diners sitting down or leaving.
  */
-export interface CommonTouchEvent {
-  type: string;
-  touches: { [index: number]: CrossWindowTouch, length: number };
-  changedTouches: { [index: number]: CrossWindowTouch, length: number };
-  altKey: boolean;
-  ctrlKey: boolean;
-  metaKey: boolean;
-  shiftKey: boolean;
-}
-
-export function makeInteractionsMessage(events: CommonTouchEvent[], originElement?: HTMLElement): InteractionsMessage {
-  let coords: ClientRect;
-  if (originElement) {
-    coords = originElement.getBoundingClientRect();
+function makeMockLayout(plateSpotCount?: number): Layout {
+  let preset = getQueryParam("layout");
+  if (preset && isLayoutPreset(preset)) {
+    logNotice(`Making mock layout from the preset "${preset}" ${window.innerWidth}x${window.innerHeight}px. Other presets include ${LAYOUT_PRESETS.join(", ")}.`);
+    return makePresetLayout(preset, window.innerWidth, window.innerHeight, plateSpotCount);
   }
-  return {
-    eventType: "interactions",
-    touchEvents: events.map(e => makeCrossWindowTouchEvent(e, coords))
-  };
-}
-
-export function makeCrossWindowTouchEvent(touchEvent: CommonTouchEvent, originCoords?: ClientRect): CrossWindowTouchEvent {
-  let touches: Touch[] = Array.prototype.slice.call(touchEvent.touches);
-  let changedTouches: Touch[] = Array.prototype.slice.call(touchEvent.changedTouches);
-  return {
-    type: touchEvent.type,
-    touches: touches.map(t => makeCrossWindowTouch(t, originCoords)),
-    changedTouches: changedTouches.map(t => makeCrossWindowTouch(t, originCoords)),
-    altKey: touchEvent.altKey,
-    ctrlKey: touchEvent.ctrlKey,
-    metaKey: touchEvent.metaKey,
-    shiftKey: touchEvent.shiftKey,
-  };
-}
-
-export function makeCrossWindowTouch(touch: Touch, originCoords?: ClientRect): CrossWindowTouch {
-  let clientX = touch.clientX;
-  let clientY = touch.clientY;
-  if (originCoords) {
-    clientX -= originCoords.left;
-    clientY -= originCoords.top;
+  if (preset) {
+    console.error(`You have set layout=${preset}, which is not a layout preset. Try one of ${LAYOUT_PRESETS.join(", ")}.`);
   }
-  return {
-    identifier: touch.identifier,
-    clientX,
-    clientY
-  };
-}
-
-export interface NavigateMessage extends Message {
-  navigateButtonId: string;
-}
-
-
-//
-// DEVELOPMENT UTILITIES
-//
-
-function logNotice(message: string, ...additional: any[]) {
-  console.log(`Ordamo SDK: ${message}`, ...additional);
-}
 
-
-function makeMockLayout(): Layout {
-  let queryParams: { [key: string]: number } = {};
-  document.location.href.replace(/[?&]([^=]+)=([^&]*)?/g, (match, name, value) => queryParams[name] = parseInt(value) as any);
-
-  if (queryParams["rotation"] % 90) {
-    console.error(`You have set rotation=${queryParams["rotation"]} - the SDK only supports rotations that are a multiple of 90 degrees`);
-    queryParams["rotation"] = Math.round(queryParams["rotation"] / 90) * 90;
-  }
-
-  const numPlateSpots = isNaN(queryParams["plateSpots"]) ? 2 : queryParams["plateSpots"],
-    numContentAreas = isNaN(queryParams["contentAreas"]) ? 1 : queryParams["contentAreas"],
-    clearCentreSpace = queryParams["avoidCentre"] ? 1 : 0,
-    width = window.innerWidth,
-    height = window.innerHeight,
-    resolution = 12,
-    padding = 20,
-    columns = Math.min(3, numPlateSpots + numContentAreas + clearCentreSpace),
-    rows = Math.ceil((numPlateSpots + numContentAreas + clearCentreSpace) / columns),
-    radius = Math.min((width - padding * (columns + 1)) / columns, (height - padding * (rows + 1)) / rows) / 2,
-    size = padding + radius * 2;
-
-  logNotice(`Making mock layout ${width}x${height}px (~ ${Math.round(width / resolution)}x${Math.round(height / resolution)}cm) with ${numPlateSpots} plate spots and ${numContentAreas} content areas${clearCentreSpace ? " and keeping the centre clear" : ""}. Control the layout with URL parameters like so: ?plateSpots=4&contentAreas=2&rotation=0&avoidCentre=1`);
-
-  let item = 0, itemOffset = 0, x = 0, y = 0, rotation = queryParams["rotation"];
-  return {
-    "widthPx": width,
-    "heightPx": height,
-    "resolutionPixelsPerCm": resolution,
-    "plateSpots": flowLayout(numPlateSpots, (): Circle => {
-      return {
-        "type": "circle",
-        "id": item,
-        "x": x,
-        "y": y,
-        "radius": radius,
-        "rotationDegrees": rotation,
-        "borderWidth": radius / 10
-      };
-    }),
-    "contentAreas": flowLayout(numContentAreas, (): Rectangle => {
-      return {
-        "type": "rectangle",
-        "id": item,
-        "x": x,
-        "y": y,
-        "width": radius * 2,
-        "height": radius * 2,
-        "rotationDegrees": rotation
-      };
-    })
-  };
-  function flowLayout<I>(itemCount: number, itemFactory: () => I): I[] {
-    let results: I[] = [];
-    for (let i = 0; i < itemCount; i++) {
-      computeXY();
-      if (clearCentreSpace) {
-        let dx = (window.innerWidth / 2 - x);
-        let dy = (window.innerHeight / 2 - y);
-        let centreDistance = Math.sqrt(dx * dx + dy * dy);
-        if (centreDistance < radius) {
-          itemOffset++;
-          computeXY();
-        }
-      }
-      if (isNaN(queryParams["rotation"])) {
-        rotation = item * 90;
-      }
-      results.push(itemFactory());
-      item++;
-    }
-    return results;
-  }
-  function computeXY() {
-    x = padding + radius + size * ((item + itemOffset) % columns);
-    y = padding + radius + size * Math.floor((item + itemOffset) / columns);
+  let options = parseGridLayoutParams(getQueryParam);
+  if (plateSpotCount !== undefined) {
+    options.plateSpots = plateSpotCount;
   }
+  let layout = makeGridLayout(window.innerWidth, window.innerHeight, options);
+  let width = layout.widthPx, height = layout.heightPx, resolution = layout.resolutionPixelsPerCm;
 
+  logNotice(`Making mock layout ${width}x${height}px (~ ${Math.round(width / resolution)}x${Math.round(height / resolution)}cm) with ${layout.plateSpots.length} plate spots and ${layout.contentAreas.length} content areas${options.avoidCentre ? " and keeping the centre clear" : ""}. Control the layout with URL parameters like so: ?plateSpots=4&contentAreas=2&rotation=0&avoidCentre=1 or ?rotations=0,45,180, use a preset like ?layout=round4, or load a layout captured from a real table with ?layoutFile=tables/t12.json`);
+  return layout;
 }
 
 /**
  * Supresses mouse events and convert them to touch events, optionally dispatching
  * the touch events on target DOM elements and/or reporting them through a callback. 
+ *
+ * Events are converted within root, which defaults to the whole window. Modifier keys
+ * emulate more than one finger:
+ *
+ * Shift-drag - a second finger mirrors the pointer around the centre of the element, to pinch
+ * Alt-drag - a second finger stays opposite the pointer at a fixed distance, to rotate
+ * Ctrl-click - pin a finger in place, or lift a pinned finger. Pinned fingers stay down during later drags.
+ * Escape - lift all pinned fingers
+ *
+ * If the pointer leaves the root or the window loses focus during a drag, the dragging fingers
+ * are cancelled with a touchcancel event. Pinned fingers stay down.
+ *
+ * Returns a function that stops the emulation, cancelling any fingers that are down.
  */
-export function startTouchEventEmulation() {
-
-  let currentElement: HTMLElement;
+export function startTouchEventEmulation(root: HTMLElement | Window = window): () => void {
+
+  let dragFingers: EmulatedFinger[] = [];
+  let pinnedFingers: EmulatedFinger[] = [];
+  let dragMode: "single" | "pinch" | "rotate" = "single";
+  let pivot: Point;
+  let rotateRadius: number;
+  let nextPinnedIdentifier = FIRST_PINNED_FINGER_IDENTIFIER;
+  let markers: HTMLElement[] = [];
   let hasNativeTouchEvents = false;
 
   let killEventDead = (event: Event) => {
@@ -1066,76 +2116,258 @@ export function startTouchEventEmulation() {
     event.stopPropagation();
   };
 
-  let handleMouseEvent = (touchType: string) => {
-    return (mouseEvent: MouseEvent) => {
+  let dispatchTouchEvent = (type: string, changedFingers: EmulatedFinger[], modifiers: ModifierKeys) => {
+    let target = changedFingers[0].target;
+    let touches = pinnedFingers.concat(dragFingers).map(makeEmulatedTouch);
+    let touchEvent: TouchEvent = new (TouchEvent as any)(type, {
+      touches,
+      targetTouches: touches.filter(touch => touch.target === target),
+      changedTouches: changedFingers.map(makeEmulatedTouch),
+      ctrlKey: modifiers.ctrlKey,
+      shiftKey: modifiers.shiftKey,
+      altKey: modifiers.altKey,
+      metaKey: modifiers.metaKey,
+      bubbles: true,
+      cancelable: true
+    });
+    target.dispatchEvent(touchEvent);
+    updateMarkers();
+  };
 
-      if ((mouseEvent.target as HTMLElement).nodeName !== "INPUT") {  // messing with native events on inputs breaks them
+  // show where the fingers that don't follow the pointer are
+  let updateMarkers = () => {
+    markers.forEach(marker => marker.parentNode.removeChild(marker));
+    markers = pinnedFingers.concat(dragFingers.slice(1)).map(finger => {
+      let marker = document.createElement("div");
+      marker.style.cssText = "position: fixed; width: 30px; height: 30px; margin: -15px 0 0 -15px; border-radius: 50%; " +
+        "background: rgba(255, 0, 0, 0.5); pointer-events: none; z-index: 2147483647;";
+      marker.style.left = finger.x + "px";
+      marker.style.top = finger.y + "px";
+      document.body.appendChild(marker);
+      return marker;
+    });
+  };
 
-        killEventDead(mouseEvent);
+  let togglePinnedFinger = (target: HTMLElement, mouseEvent: MouseEvent) => {
+    let x = mouseEvent.clientX, y = mouseEvent.clientY;
+    let existing = pinnedFingers.filter(finger => distance(finger, { x, y }) <= PINNED_FINGER_RADIUS_PX)[0];
+    if (existing) {
+      pinnedFingers.splice(pinnedFingers.indexOf(existing), 1);
+      dispatchTouchEvent("touchend", [existing], mouseEvent);
+    } else {
+      let finger = { identifier: nextPinnedIdentifier++, target, x, y };
+      pinnedFingers.push(finger);
+      dispatchTouchEvent("touchstart", [finger], mouseEvent);
+    }
+  };
 
-        if (mouseEvent.button !== 0 || hasNativeTouchEvents) {
-          return;
-        }
+  let startDrag = (target: HTMLElement, mouseEvent: MouseEvent) => {
+    let pointer = { identifier: POINTER_FINGER_IDENTIFIER, target, x: mouseEvent.clientX, y: mouseEvent.clientY };
+    dragFingers = [pointer];
+    dragMode = mouseEvent.shiftKey ? "pinch" : mouseEvent.altKey ? "rotate" : "single";
+    if (dragMode !== "single") {
+      let rect = target.getBoundingClientRect();
+      pivot = { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+      rotateRadius = distance(pointer, pivot);
+      dragFingers.push({ identifier: MIRRORED_FINGER_IDENTIFIER, target, x: 2 * pivot.x - pointer.x, y: 2 * pivot.y - pointer.y });
+    }
+    dispatchTouchEvent("touchstart", dragFingers, mouseEvent);
+  };
 
-        if (mouseEvent.type === "mousedown") {
-          currentElement = mouseEvent.target as HTMLElement;
-          if (currentElement.nodeType !== Node.ELEMENT_NODE) {
-            currentElement = currentElement.parentElement;
-          }
-        }
+  let moveDrag = (mouseEvent: MouseEvent) => {
+    let pointer = dragFingers[0];
+    pointer.x = mouseEvent.clientX;
+    pointer.y = mouseEvent.clientY;
+    if (dragMode === "rotate") {
+      let angle = Math.atan2(pointer.y - pivot.y, pointer.x - pivot.x);
+      pointer.x = pivot.x + rotateRadius * Math.cos(angle);
+      pointer.y = pivot.y + rotateRadius * Math.sin(angle);
+    }
+    if (dragMode !== "single") {
+      dragFingers[1].x = 2 * pivot.x - pointer.x;
+      dragFingers[1].y = 2 * pivot.y - pointer.y;
+    }
+    dispatchTouchEvent("touchmove", dragFingers, mouseEvent);
+  };
 
-        if (!currentElement) {
-          return;
-        }
+  let endDrag = (mouseEvent: MouseEvent) => {
+    let changedFingers = dragFingers;
+    dragFingers = [];
+    dispatchTouchEvent("touchend", changedFingers, mouseEvent);
+  };
 
-        let touch: Touch = new (Touch as any)({
-          identifier: 1,
-          target: currentElement,
-          clientX: mouseEvent.clientX,
-          clientY: mouseEvent.clientY,
-          pageX: mouseEvent.pageX,
-          pageY: mouseEvent.pageY,
-          screenX: mouseEvent.screenX,
-          screenY: mouseEvent.screenY,
-        });
-
-        let touchEvent: TouchEvent = new (TouchEvent as any)(touchType, {
-          touches: mouseEvent.type === "mouseup" ? [] : [touch],
-          targetTouches: mouseEvent.type === "mouseup" ? [] : [touch],
-          changedTouches: [touch],
-          ctrlKey: mouseEvent.ctrlKey,
-          shiftKey: mouseEvent.shiftKey,
-          altKey: mouseEvent.altKey,
-          metaKey: mouseEvent.metaKey,
-          bubbles: true,
-          cancelable: true
-        });
-
-        currentElement.dispatchEvent(touchEvent);
+  let cancelDrag = (modifiers: ModifierKeys) => {
+    let changedFingers = dragFingers;
+    if (changedFingers.length > 0) {
+      dragFingers = [];
+      dispatchTouchEvent("touchcancel", changedFingers, modifiers);
+    }
+  };
+
+  let cancelAllFingers = (modifiers: ModifierKeys) => {
+    let changedFingers = pinnedFingers.concat(dragFingers);
+    if (changedFingers.length > 0) {
+      pinnedFingers = [];
+      dragFingers = [];
+      dispatchTouchEvent("touchcancel", changedFingers, modifiers);
+    }
+  };
+
+  let handleMouseEvent = (mouseEvent: MouseEvent) => {
+
+    if ((mouseEvent.target as HTMLElement).nodeName === "INPUT") {  // messing with native events on inputs breaks them
+      if (mouseEvent.type === "mouseup" && dragFingers.length > 0) {
+        endDrag(mouseEvent);
       }
+      return;
+    }
+
+    killEventDead(mouseEvent);
 
-      if (mouseEvent.type === "mouseup") {
-        currentElement = null;
+    if (mouseEvent.button !== 0 || hasNativeTouchEvents) {
+      return;
+    }
+
+    if (mouseEvent.type === "mousedown") {
+      let target = mouseEvent.target as HTMLElement;
+      if (target.nodeType !== Node.ELEMENT_NODE) {
+        target = target.parentElement;
       }
-    };
+      if (mouseEvent.ctrlKey || mouseEvent.metaKey) {
+        togglePinnedFinger(target, mouseEvent);
+      } else if (dragFingers.length === 0) {
+        startDrag(target, mouseEvent);
+      }
+    } else if (mouseEvent.type === "mousemove" && dragFingers.length > 0) {
+      moveDrag(mouseEvent);
+    } else if (mouseEvent.type === "mouseup" && dragFingers.length > 0) {
+      endDrag(mouseEvent);
+    }
+  };
+
+  let handleMouseOut = (mouseEvent: MouseEvent) => {
+    let to = mouseEvent.relatedTarget as Node;
+    if (!to || (root !== window && !(root as HTMLElement).contains(to))) {
+      cancelDrag(mouseEvent);
+    }
+    killEventDead(mouseEvent);
   };
 
   let checkForNativeEvent = (e: TouchEvent) => {
     if (e.isTrusted) {
-      window.removeEventListener("touchstart", checkForNativeEvent, true);
+      root.removeEventListener("touchstart", checkForNativeEvent, true);
       hasNativeTouchEvents = true;
     }
   };
 
-  window.addEventListener("touchstart", checkForNativeEvent, true);
+  let handleBlur = () => {
+    cancelDrag(NO_MODIFIER_KEYS);
+  };
+
+  let handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === "Escape" && pinnedFingers.length > 0) {
+      let changedFingers = pinnedFingers;
+      pinnedFingers = [];
+      dispatchTouchEvent("touchend", changedFingers, e);
+    }
+  };
+
+  // ctrl-click opens the context menu on Macs
+  let handleContextMenu = (e: MouseEvent) => {
+    if (e.ctrlKey) {
+      killEventDead(e);
+    }
+  };
+
+  let rootListeners: [string, (e: Event) => void][] = [
+    ["touchstart", checkForNativeEvent],
+    ["mousedown", handleMouseEvent],
+    ["mousemove", handleMouseEvent],
+    ["mouseup", handleMouseEvent],
+    ["mouseout", handleMouseOut],
+    ["contextmenu", handleContextMenu],
+    ["click", killEventDead],
+    ["mouseenter", killEventDead],
+    ["mouseleave", killEventDead],
+    ["mouseover", killEventDead]
+  ];
+
+  rootListeners.forEach(([type, listener]) => root.addEventListener(type, listener, true));
+  window.addEventListener("blur", handleBlur);
+  window.addEventListener("keydown", handleKeyDown);
+
+  return () => {
+    rootListeners.forEach(([type, listener]) => root.removeEventListener(type, listener, true));
+    window.removeEventListener("blur", handleBlur);
+    window.removeEventListener("keydown", handleKeyDown);
+    cancelAllFingers(NO_MODIFIER_KEYS);
+  };
+}
+
+/**
+ * Dispatch a recorded touch event on the elements under its touches. Each touch targets
+ * the element that it started on, which is remembered in targets.
+ */
+function dispatchRecordedTouchEvent(touchEvent: CrossWindowTouchEvent, targets: { [identifier: number]: HTMLElement }) {
+  let toTouch = (touch: CrossWindowTouch) => {
+    let target = targets[touch.identifier];
+    if (!target) {
+      target = targets[touch.identifier] = (document.elementFromPoint(touch.clientX, touch.clientY) as HTMLElement) || document.body;
+    }
+    return makeEmulatedTouch({ identifier: touch.identifier, target, x: touch.clientX, y: touch.clientY });
+  };
+  let changedTouches = touchEvent.changedTouches.map(toTouch);
+  let touches = touchEvent.touches.map(toTouch);
+  if (changedTouches.length === 0) {
+    return;
+  }
+  let target = changedTouches[0].target;
+  target.dispatchEvent(new (TouchEvent as any)(touchEvent.type, {
+    touches,
+    targetTouches: touches.filter(touch => touch.target === target),
+    changedTouches,
+    ctrlKey: touchEvent.ctrlKey,
+    shiftKey: touchEvent.shiftKey,
+    altKey: touchEvent.altKey,
+    metaKey: touchEvent.metaKey,
+    bubbles: true,
+    cancelable: true
+  }));
+  if (touchEvent.type === "touchend" || touchEvent.type === "touchcancel") {
+    touchEvent.changedTouches.forEach(touch => delete targets[touch.identifier]);
+  }
+}
+
+const POINTER_FINGER_IDENTIFIER = 1;
+const MIRRORED_FINGER_IDENTIFIER = 2;
+const FIRST_PINNED_FINGER_IDENTIFIER = 3;
+const PINNED_FINGER_RADIUS_PX = 15;
 
-  window.addEventListener("mousedown", handleMouseEvent("touchstart"), true);
-  window.addEventListener("mousemove", handleMouseEvent("touchmove"), true);
-  window.addEventListener("mouseup", handleMouseEvent("touchend"), true);
+interface EmulatedFinger {
+  identifier: number;
+  target: HTMLElement;
+  x: number;
+  y: number;
+}
+
+interface ModifierKeys {
+  altKey: boolean;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  shiftKey: boolean;
+}
 
-  window.addEventListener("click", killEventDead, true);
-  window.addEventListener("mouseenter", killEventDead, true);
-  window.addEventListener("mouseleave", killEventDead, true);
-  window.addEventListener("mouseout", killEventDead, true);
-  window.addEventListener("mouseover", killEventDead, true);
+const NO_MODIFIER_KEYS: ModifierKeys = { altKey: false, ctrlKey: false, metaKey: false, shiftKey: false };
+
+function makeEmulatedTouch(finger: EmulatedFinger): Touch {
+  return new (Touch as any)({
+    identifier: finger.identifier,
+    target: finger.target,
+    clientX: finger.x,
+    clientY: finger.y,
+    pageX: finger.x + window.pageXOffset,
+    pageY: finger.y + window.pageYOffset,
+    screenX: finger.x + window.screenX,
+    screenY: finger.y + window.screenY,
+  });
 }
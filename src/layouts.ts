@@ -0,0 +1,221 @@
+"use strict";
+
+import {
+  Circle,
+  Layout,
+  Rectangle
+} from "./protocol";
+
+/**
+ * Examples of mock layout preset names. Any number of diners can be used, e.g. "round5".
+ *
+ * "roundN" - N diners evenly spaced around an oval table, all facing its centre
+ * "rectN" - N diners split between the two long sides of a rectangular table
+ */
+export const LAYOUT_PRESETS = ["round2", "round4", "round6", "round8", "rect2", "rect4", "rect6", "rect8"];
+
+// a dinner plate is about 27cm across
+const PLATE_SPOT_RADIUS_CM = 13.5;
+const DEFAULT_RESOLUTION_PIXELS_PER_CM = 12;
+const PADDING_PX = 20;
+
+/**
+ * Return true if a name is a valid layout preset, see LAYOUT_PRESETS
+ */
+export function isLayoutPreset(name: string): boolean {
+  return parsePreset(name) !== null;
+}
+
+/**
+ * Make a layout that resembles a real table, see LAYOUT_PRESETS. If plateSpotCount is
+ * given it overrides the number of diners in the preset name.
+ */
+export function makePresetLayout(name: string, widthPx: number, heightPx: number, plateSpotCount?: number): Layout {
+  let preset = parsePreset(name);
+  if (!preset) {
+    throw new Error(`"${name}" is not a layout preset, expected a name like ${LAYOUT_PRESETS.join(", ")}`);
+  }
+  let count = plateSpotCount === undefined ? preset.count : plateSpotCount;
+  let resolution = DEFAULT_RESOLUTION_PIXELS_PER_CM;
+  let radius = Math.min(PLATE_SPOT_RADIUS_CM * resolution, Math.min(widthPx, heightPx) / 6);
+  let centreX = widthPx / 2, centreY = heightPx / 2;
+
+  let places: { x: number, y: number, rotationDegrees: number }[] = [];
+  if (preset.shape === "round") {
+    let radiusX = centreX - radius - PADDING_PX, radiusY = centreY - radius - PADDING_PX;
+    for (let i = 0; i < count; i++) {
+      // start with a diner at the bottom and go clockwise
+      let angle = 90 + i * 360 / count;
+      let radians = angle * Math.PI / 180;
+      places.push({
+        x: centreX + radiusX * Math.cos(radians),
+        y: centreY + radiusY * Math.sin(radians),
+        rotationDegrees: (angle - 90) % 360
+      });
+    }
+  } else {
+    let bottomCount = Math.ceil(count / 2), topCount = count - bottomCount;
+    let side = (sideCount: number, y: number, rotationDegrees: number) => {
+      for (let i = 0; i < sideCount; i++) {
+        places.push({ x: widthPx * (i + 0.5) / sideCount, y, rotationDegrees });
+      }
+    };
+    side(bottomCount, heightPx - radius - PADDING_PX, 0);
+    side(topCount, radius + PADDING_PX, 180);
+  }
+
+  return {
+    widthPx,
+    heightPx,
+    resolutionPixelsPerCm: resolution,
+    plateSpots: places.map((place, id): Circle => ({
+      type: "circle",
+      id,
+      x: place.x,
+      y: place.y,
+      radius,
+      borderWidth: radius / 10,
+      rotationDegrees: place.rotationDegrees
+    })),
+    contentAreas: places.map((place, id): Rectangle => {
+      // in front of the plate, but no more than half way to the centre of the table
+      let radians = place.rotationDegrees * Math.PI / 180;
+      let distanceToCentre = (centreX - place.x) * Math.sin(radians) - (centreY - place.y) * Math.cos(radians);
+      let distance = Math.min(radius * 1.75 + PADDING_PX, distanceToCentre / 2);
+      return {
+        type: "rectangle",
+        id,
+        x: place.x + Math.sin(radians) * distance,
+        y: place.y - Math.cos(radians) * distance,
+        width: radius * 2,
+        height: radius * 1.5,
+        rotationDegrees: place.rotationDegrees
+      };
+    })
+  };
+}
+
+/**
+ * Options for makeGridLayout(). In development mode and the simulator they are set by URL
+ * parameters of the same names, see parseGridLayoutParams().
+ */
+export interface GridLayoutOptions {
+  /**
+   * The number of diners, defaults to 2
+   */
+  plateSpots?: number;
+
+  /**
+   * The number of content areas, defaults to 1
+   */
+  contentAreas?: number;
+
+  /**
+   * The rotation of every diner in degrees. By default each diner is turned 90 degrees
+   * further than the previous one.
+   */
+  rotation?: number;
+
+  /**
+   * The rotation of each diner in turn, e.g. [0, 45, 180], overriding rotation
+   */
+  rotations?: number[];
+
+  /**
+   * Leave the centre of the table clear
+   */
+  avoidCentre?: boolean;
+}
+
+/**
+ * Read GridLayoutOptions from URL parameters, e.g.
+ * ?plateSpots=4&contentAreas=2&rotation=0&avoidCentre=1 or ?rotations=0,45,180
+ */
+export function parseGridLayoutParams(getParam: (name: string) => string): GridLayoutOptions {
+  let intParam = (name: string) => {
+    let value = parseInt(getParam(name));
+    return isNaN(value) ? undefined : value;
+  };
+  let rotations = (getParam("rotations") || "").split(",").map(parseFloat).filter(rotation => !isNaN(rotation));
+  return {
+    plateSpots: intParam("plateSpots"),
+    contentAreas: intParam("contentAreas"),
+    rotation: intParam("rotation"),
+    rotations: rotations.length ? rotations : undefined,
+    avoidCentre: !!intParam("avoidCentre")
+  };
+}
+
+/**
+ * Make a layout with plate spots and then content areas laid out in a grid of up to three
+ * columns, sized to fill the screen
+ */
+export function makeGridLayout(widthPx: number, heightPx: number, options: GridLayoutOptions = {}): Layout {
+  const numPlateSpots = options.plateSpots === undefined ? 2 : options.plateSpots,
+    numContentAreas = options.contentAreas === undefined ? 1 : options.contentAreas,
+    clearCentreSpace = options.avoidCentre ? 1 : 0,
+    resolution = DEFAULT_RESOLUTION_PIXELS_PER_CM,
+    columns = Math.max(1, Math.min(3, numPlateSpots + numContentAreas + clearCentreSpace)),
+    rows = Math.max(1, Math.ceil((numPlateSpots + numContentAreas + clearCentreSpace) / columns)),
+    radius = Math.min((widthPx - PADDING_PX * (columns + 1)) / columns, (heightPx - PADDING_PX * (rows + 1)) / rows) / 2,
+    size = PADDING_PX + radius * 2;
+
+  let item = 0, itemOffset = 0, x = 0, y = 0, rotation = options.rotation;
+  return {
+    widthPx,
+    heightPx,
+    resolutionPixelsPerCm: resolution,
+    plateSpots: flowLayout(numPlateSpots, (): Circle => ({
+      type: "circle",
+      id: item,
+      x,
+      y,
+      radius,
+      rotationDegrees: rotation,
+      borderWidth: radius / 10
+    })),
+    contentAreas: flowLayout(numContentAreas, (): Rectangle => ({
+      type: "rectangle",
+      // numbered separately from plate spots so that adding a diner doesn't change them
+      id: item - numPlateSpots,
+      x,
+      y,
+      width: radius * 2,
+      height: radius * 2,
+      rotationDegrees: rotation
+    }))
+  };
+
+  function flowLayout<I>(itemCount: number, itemFactory: () => I): I[] {
+    let results: I[] = [];
+    for (let i = 0; i < itemCount; i++) {
+      computeXY();
+      if (clearCentreSpace) {
+        let dx = widthPx / 2 - x;
+        let dy = heightPx / 2 - y;
+        if (Math.sqrt(dx * dx + dy * dy) < radius) {
+          itemOffset++;
+          computeXY();
+        }
+      }
+      if (options.rotations) {
+        rotation = options.rotations[item % options.rotations.length];
+      } else if (options.rotation === undefined) {
+        rotation = item * 90;
+      }
+      results.push(itemFactory());
+      item++;
+    }
+    return results;
+  }
+
+  function computeXY() {
+    x = PADDING_PX + radius + size * ((item + itemOffset) % columns);
+    y = PADDING_PX + radius + size * Math.floor((item + itemOffset) / columns);
+  }
+}
+
+function parsePreset(name: string): { shape: string, count: number } {
+  let match = /^(round|rect)(\d+)$/.exec(name || "");
+  return match ? { shape: match[1], count: parseInt(match[2]) } : null;
+}
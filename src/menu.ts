@@ -0,0 +1,63 @@
+"use strict";
+
+import {
+  MenuNode,
+  MenuNodePatch
+} from "./protocol";
+
+/**
+ * Return the menu node with an id, searching children too, or null if there is none
+ */
+export function findMenuNode(nodes: MenuNode[], id: string): MenuNode {
+  for (let node of nodes || []) {
+    if (node.id === id) {
+      return node;
+    }
+    let child = findMenuNode(node.children, id);
+    if (child) {
+      return child;
+    }
+  }
+  return null;
+}
+
+/**
+ * Return a copy of a menu with a patch applied to the node with an id, or null if there
+ * is no such node. The original menu is not changed.
+ */
+export function patchMenuNodes(nodes: MenuNode[], id: string, patch: MenuNodePatch): MenuNode[] {
+  let found = false;
+  let patchList = (list: MenuNode[]): MenuNode[] => list.map(node => {
+    if (node.id === id) {
+      found = true;
+      return Object.assign({}, node, patch, { id });
+    }
+    return node.children ? Object.assign({}, node, { children: patchList(node.children) }) : node;
+  });
+  let patched = patchList(nodes || []);
+  return found ? patched : null;
+}
+
+/**
+ * Check that no two menu nodes have the same id. Returns a list of problems, which is
+ * empty if the ids are unique.
+ */
+export function validateMenuNodeIds(nodes: MenuNode[], path = "menuNodes"): string[] {
+  let problems: string[] = [];
+  let paths: { [id: string]: string } = {};
+  let visit = (list: MenuNode[], listPath: string) => {
+    (list || []).forEach((node, i) => {
+      let nodePath = `${listPath}[${i}]`;
+      if (node.id !== undefined) {
+        if (paths.hasOwnProperty(node.id)) {
+          problems.push(`${nodePath} has the id "${node.id}", which is already used by ${paths[node.id]}`);
+        } else {
+          paths[node.id] = nodePath;
+        }
+      }
+      visit(node.children, `${nodePath}.children`);
+    });
+  };
+  visit(nodes, path);
+  return problems;
+}
@@ -0,0 +1,81 @@
+"use strict";
+
+import {
+  Circle,
+  Layout,
+  Rectangle
+} from "./protocol";
+
+import {
+  LayoutShape
+} from "./geometry";
+
+export interface PlacementOptions {
+  /**
+   * The width in CSS pixels that the element was designed at. If set, the element is given
+   * this width and scaled with a CSS transform to fit the shape, so the same design can be
+   * used for plate spots and content areas of different sizes. Defaults to the width of
+   * the shape, i.e. no scaling.
+   */
+  designWidth?: number;
+
+  /**
+   * The height in CSS pixels that the element was designed at, see designWidth. Defaults
+   * to designWidth for plate spots, and to the design width scaled by the aspect ratio of
+   * the shape for content areas.
+   */
+  designHeight?: number;
+
+  /**
+   * An extra scale factor applied after fitting the element to the shape, defaults to 1
+   */
+  scale?: number;
+}
+
+/**
+ * Identifies the plate spot or content area that an element is bound to, see
+ * OrdamoSDK.bindElement(). Exactly one property should be set.
+ */
+export interface PlacementTarget {
+  plateSpotId?: number;
+  contentAreaId?: number;
+}
+
+/**
+ * Absolutely position an element over a plate spot or content area, sized to fit it and
+ * rotated to face the diner. The element's offset parent should cover the whole table,
+ * e.g. be the document body.
+ */
+export function placeElement(element: HTMLElement, shape: LayoutShape, options: PlacementOptions = {}): void {
+  let shapeWidth: number, shapeHeight: number;
+  if (shape.type === "circle") {
+    shapeWidth = shapeHeight = (shape as Circle).radius * 2;
+  } else {
+    shapeWidth = (shape as Rectangle).width;
+    shapeHeight = (shape as Rectangle).height;
+  }
+  let width = options.designWidth || shapeWidth;
+  let height = options.designHeight || width * shapeHeight / shapeWidth;
+  let scale = Math.min(shapeWidth / width, shapeHeight / height) * (options.scale || 1);
+
+  let style = element.style;
+  style.position = "absolute";
+  style.boxSizing = "border-box";
+  style.left = (shape.x - width / 2) + "px";
+  style.top = (shape.y - height / 2) + "px";
+  style.width = width + "px";
+  style.height = height + "px";
+  style.transformOrigin = "50% 50%";
+  style.transform = `rotate(${shape.rotationDegrees || 0}deg) scale(${scale})`;
+}
+
+/**
+ * Return the plate spot or content area identified by a target, or null if the layout
+ * doesn't contain it
+ */
+export function findPlacementShape(layout: Layout, target: PlacementTarget): LayoutShape {
+  if (target.plateSpotId !== undefined) {
+    return layout.plateSpots.filter(plateSpot => plateSpot.id === target.plateSpotId)[0] || null;
+  }
+  return layout.contentAreas.filter(contentArea => contentArea.id === target.contentAreaId)[0] || null;
+}
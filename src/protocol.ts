@@ -0,0 +1,748 @@
+"use strict";
+
+export interface MenuNode {
+  /**
+   * Reqired only if launchAppId is present, or if the node is changed at runtime with
+   * OrdamoSDK.updateMenuNode(). Uniquely identify this app instance for content
+   * management purposes. Ids must be unique within the app's menu.
+   */
+  id?: string;
+
+  /**
+   * An icon used for the menu node. THIS IS REQUIRED unless launchAppId is used, in which case
+   * it may be optionally ommitted and the app's default icon will be used in place.
+   * A 250x250px image encoded as a data uri.
+   */
+  iconSrc?: string;
+
+  /**
+   * If present, clicking this menu item will open up a new level of items below it.
+   */
+  children?: MenuNode[];
+
+  /**
+   * If present, clicking this menu item will cause the SDK's onNavigate callback to be
+   * fired with this string as an argument.
+   */
+  navigateButtonId?: string;
+
+  /**
+   * If true, this indicates that the app must have custom content in order to be shown to customers.
+   * If no custom content is assigned to the app, it will be hidden in the menu.
+   */
+  contentRequired?: boolean;
+
+  /**
+   * If present, clicking this menu item will cause the app of the specified ID to be
+   * launched. WARNING: this is an advanced feature intended for use when several related
+   * apps are controlled by a single "master" app. Most app authors do not need to use it.
+   */
+  launchAppId?: string;
+
+  /**
+   * Parameters passed to the app launched by launchAppId, see OrdamoSDK.getLaunchParams()
+   */
+  launchParams?: any;
+
+  /**
+   * If true, clicking this item will close the menu.
+   */
+  closeMenu?: boolean;
+
+  /**
+   * If false, the node is shown greyed out and can not be clicked. Defaults to true.
+   */
+  enabled?: boolean;
+
+  /**
+   * If true, the node is not shown, e.g. a "Next round" item until the current round is
+   * over. Defaults to false.
+   */
+  hidden?: boolean;
+
+  /**
+   * If true, the node is highlighted to show that the app is displaying its section.
+   * Several nodes may be selected, e.g. a node and one of its children.
+   */
+  selected?: boolean;
+
+  /**
+   * A short label shown over the node's icon, e.g. a count of new scores. At most 3
+   * characters will fit.
+   */
+  badge?: string;
+}
+
+/**
+ * Changes to a menu node, see OrdamoSDK.updateMenuNode(). Properties that are absent are
+ * left unchanged, and children replaces all of the node's children. The id can not be
+ * changed.
+ */
+export type MenuNodePatch = Partial<MenuNode>;
+
+//
+// MESSAGE TYPES
+//
+
+export interface Message {
+  eventType: string;
+}
+
+/**
+ * Sent from app to host to indicate that the app has loaded and is ready
+ * to receive the "init" message.
+ */
+export interface LoadMessage extends Message {
+  /**
+   * See OrdamoSDKOptions::fullscreen
+   */
+  fullscreen: boolean;
+
+  /**
+   * The protocol version spoken by the app, see PROTOCOL_VERSION
+   */
+  protocolVersion?: number;
+}
+
+/**
+ * Information about a video file used as content, read from its headers by the build-content
+ * command and saved in video-info.json in the build folder, keyed by the video's path. See
+ * OrdamoSDK.getVideoInfo().
+ */
+export interface VideoInfo {
+  /**
+   * The container format, "mp4", "webm" or "ogg"
+   */
+  container: string;
+  /**
+   * The codec of the video track, an MP4 sample entry type such as "avc1", a WebM
+   * codec ID such as "V_VP9", or "theora" for Ogg
+   */
+  codec: string;
+  width: number;
+  height: number;
+  durationSeconds: number;
+}
+
+/**
+ * Sent from host to app with the information required by the app to render itself
+ */
+export interface InitMessage extends Message {
+  content: any;
+  layout: Layout;
+
+  /**
+   * The protocol version negotiated by the host, the older of the version declared in the
+   * app's load message and the version spoken by the host, see PROTOCOL_VERSION
+   */
+  protocolVersion?: number;
+
+  /**
+   * The table label, e.g. "1" or "D" (the format depends on restaurant, but it
+   * will be short - 3 characters or less)
+   */
+  table: string;
+
+  /**
+   * The app's version as defined in its metadata file for deployment
+   */
+  version: string;
+
+  /**
+   * A number that will change whenever a new group of people are seated at the table.
+   * It is used to decide whether to restore a saved session.
+   */
+  sessionId: number;
+  /**
+   * requiredWidth value from the app's metadata 
+   */
+  requiredWidth?: number;
+  /**
+   * requiredHeight value from the app's metadata
+   */
+  requiredHeight?: number;
+  /**
+   * The diners' preferred locales, most preferred first, e.g. ["fr", "en"]
+   */
+  locales?: string[];
+  /**
+   * The values stored by the app through StoreStateMessages, for apps using "host" state
+   * storage. Hosts should keep these per app and table.
+   */
+  storedState?: { [key: string]: string };
+  /**
+   * The parameters that the app was launched with, see OrdamoSDK.getLaunchParams()
+   */
+  launchParams?: any;
+  /**
+   * The app's navigation menu when it was launched, normally AppMetadata.menuNodes, so
+   * that OrdamoSDK.updateMenuNode() can check changes before sending them
+   */
+  menuNodes?: MenuNode[];
+  /**
+   * Information about the videos in the content, keyed by the path used in the content,
+   * see OrdamoSDK.getVideoInfo(). For the default content this is the build's
+   * video-info.json. Hosts should add entries for videos uploaded to the CMS, e.g. by
+   * reading them with the same code as build-content when they are uploaded.
+   */
+  videoInfo?: { [videoPath: string]: VideoInfo };
+}
+
+/**
+ * Sent from app to host to request that the app be closed
+ */
+export interface CloseMessage extends Message {
+  /**
+   * The result to pass to the app that launched this one, see AppResultMessage
+   */
+  result?: any;
+}
+
+/**
+ * Sent from app to host to replace the app's navigation menu, see OrdamoSDK.setMenuNodes()
+ */
+export interface SetMenuNodesMessage extends Message {
+  menuNodes: MenuNode[];
+}
+
+/**
+ * Sent from app to host to change one node of the app's navigation menu, see
+ * OrdamoSDK.updateMenuNode()
+ */
+export interface UpdateMenuNodeMessage extends Message {
+  id: string;
+  patch: MenuNodePatch;
+}
+
+/**
+ * Sent from app to host to request that another app be launched, see OrdamoSDK.launchApp()
+ */
+export interface LaunchAppMessage extends Message {
+  appId: string;
+
+  /**
+   * Passed to the launched app in InitMessage.launchParams
+   */
+  params?: any;
+
+  /**
+   * Identifies this request, so that the app can match the AppResultMessage to it
+   */
+  requestId: string;
+}
+
+/**
+ * Sent from host to app when an app that it launched with a LaunchAppMessage has closed,
+ * with the result from that app's CloseMessage
+ */
+export interface AppResultMessage extends Message {
+  appId: string;
+  result?: any;
+
+  /**
+   * The requestId of the LaunchAppMessage that launched the app
+   */
+  requestId: string;
+}
+
+/**
+ * Sent from app to host when an app using "host" state storage changes a stored value.
+ * The host should persist it and include it in InitMessage.storedState next time the app
+ * is launched on the same table.
+ */
+export interface StoreStateMessage extends Message {
+  key: string;
+  /**
+   * The new value, or null if it has been removed
+   */
+  value: string;
+}
+
+/**
+ * Describes the size of the table and the positions of diner places on it 
+ */
+export interface Layout {
+  /**
+   * The locations of diner places
+   */
+  plateSpots: Circle[];
+  widthPx: number;
+  heightPx: number;
+  resolutionPixelsPerCm: number;
+  /**
+   * "Safe areas" in which content such as images and videos can be rendered without being obscured
+   * by any other UI elements. All diners on the table will have one content area that is relatively
+   * close to them and rotated in their direction.
+   */
+  contentAreas: Rectangle[];
+}
+
+export interface Shape {
+  type: string;
+}
+
+export interface Circle extends Shape {
+  id: number;
+  x: number;
+  y: number;
+  radius: number;
+  borderWidth: number;
+  rotationDegrees: number;
+}
+
+export interface Rectangle extends Shape {
+  id: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotationDegrees: number;
+}
+
+/**
+ * See OrdamoSDKOptions::onInteractions
+ */
+export interface InteractionsMessage extends Message {
+  touchEvents: CrossWindowTouchEvent[];
+}
+
+/**
+ * A cut down TouchEvent containing only propertis tyhat can be safely passed
+ * between windows using postMessage.
+ * 
+ * Note that this means no DOM elements, therefore there is no event.target or
+ * targetTouches
+ */
+export interface CrossWindowTouchEvent {
+  type: string;
+  touches: CrossWindowTouch[];
+  changedTouches: CrossWindowTouch[];
+  // no targetTouches - can't serialise DOM nodes
+  altKey: boolean;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  shiftKey: boolean;
+}
+
+/**
+ * A cut down Touch containing only propertis tyhat can be safely passed
+ * between windows using postMessage
+ */
+export interface CrossWindowTouch {
+  identifier: number;
+  clientX: number;
+  clientY: number;
+  /**
+   * The id of the plate spot that the touch is in, or undefined if it is not in one. Added
+   * by the SDK before touches are passed to the app, see attributeTouch().
+   */
+  plateSpotId?: number;
+  /**
+   * The id of the content area that the touch is in, or undefined if it is not in one
+   */
+  contentAreaId?: number;
+  /**
+   * The id of the plate spot of the diner that the touch is closest to
+   */
+  nearestPlateSpotId?: number;
+}
+
+/**
+ * An interface implemented by both React.TouchEvent and the native TouchEvent
+ */
+export interface CommonTouchEvent {
+  type: string;
+  touches: { [index: number]: CrossWindowTouch, length: number };
+  changedTouches: { [index: number]: CrossWindowTouch, length: number };
+  altKey: boolean;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  shiftKey: boolean;
+}
+
+export function makeInteractionsMessage(events: CommonTouchEvent[], originElement?: HTMLElement): InteractionsMessage {
+  let coords: ClientRect;
+  if (originElement) {
+    coords = originElement.getBoundingClientRect();
+  }
+  return {
+    eventType: "interactions",
+    touchEvents: events.map(e => makeCrossWindowTouchEvent(e, coords))
+  };
+}
+
+export function makeCrossWindowTouchEvent(touchEvent: CommonTouchEvent, originCoords?: ClientRect): CrossWindowTouchEvent {
+  let touches: Touch[] = Array.prototype.slice.call(touchEvent.touches);
+  let changedTouches: Touch[] = Array.prototype.slice.call(touchEvent.changedTouches);
+  return {
+    type: touchEvent.type,
+    touches: touches.map(t => makeCrossWindowTouch(t, originCoords)),
+    changedTouches: changedTouches.map(t => makeCrossWindowTouch(t, originCoords)),
+    altKey: touchEvent.altKey,
+    ctrlKey: touchEvent.ctrlKey,
+    metaKey: touchEvent.metaKey,
+    shiftKey: touchEvent.shiftKey,
+  };
+}
+
+export function makeCrossWindowTouch(touch: Touch, originCoords?: ClientRect): CrossWindowTouch {
+  let clientX = touch.clientX;
+  let clientY = touch.clientY;
+  if (originCoords) {
+    clientX -= originCoords.left;
+    clientY -= originCoords.top;
+  }
+  return {
+    identifier: touch.identifier,
+    clientX,
+    clientY
+  };
+}
+
+export interface NavigateMessage extends Message {
+  navigateButtonId: string;
+}
+
+/**
+ * Sent from host to app when the layout changes after the app has been initialised, see
+ * OrdamoSDK.onLayoutChange
+ */
+export interface LayoutMessage extends Message {
+  layout: Layout;
+}
+
+/**
+ * Values attached to an analytics event, e.g. {level: 3}
+ */
+export interface AnalyticsProperties {
+  [name: string]: string | number | boolean;
+}
+
+/**
+ * Something that happened in an app, see OrdamoSDK.trackEvent()
+ */
+export interface AnalyticsEvent {
+  name: string;
+  properties: AnalyticsProperties;
+
+  /**
+   * When the event happened, in milliseconds since 1970 by the app's clock
+   */
+  timestamp: number;
+
+  /**
+   * The table label, session id and app version from the init message
+   */
+  table: string;
+  sessionId: number;
+  appVersion: string;
+}
+
+/**
+ * Sent from app to host with a batch of analytics events, oldest first
+ */
+export interface AnalyticsMessage extends Message {
+  events: AnalyticsEvent[];
+}
+
+/**
+ * Sent from app to host or host to app to report a problem with the other party
+ */
+export interface ErrorMessage extends Message {
+  /**
+   * The kind of error. "protocol" means that a received message could not be understood.
+   * "uncaught" means that the app threw an error or rejected a promise without handling
+   * it, and may no longer be working.
+   */
+  errorType: string;
+
+  /**
+   * A human readable description of the error
+   */
+  message: string;
+
+  /**
+   * The protocol version spoken by the sender of this message
+   */
+  protocolVersion: number;
+
+  /**
+   * For "uncaught" errors, the stack trace if available
+   */
+  stack?: string;
+
+  /**
+   * For "uncaught" errors, the script URL, line and column of the error if available
+   */
+  location?: string;
+
+  /**
+   * For "uncaught" errors, the app version and table label from the init message, if
+   * the error happened after the app was initialised
+   */
+  appVersion?: string;
+  table?: string;
+}
+
+/**
+ * How often an app sends a heartbeat message to the host. Hosts should allow some
+ * leeway, as browsers delay timers when busy.
+ */
+export const HEARTBEAT_INTERVAL_SECONDS = 5;
+
+
+//
+// MESSAGE VALIDATION
+//
+
+/**
+ * The version of the message protocol spoken by this SDK. Messages that do not declare a
+ * protocol version are assumed to be version 1, the protocol used before versioning was
+ * introduced. The app declares its version in the load message and the host replies with
+ * the negotiated version in the init message, see negotiateProtocolVersion().
+ */
+export const PROTOCOL_VERSION = 2;
+
+/**
+ * The oldest protocol version that this SDK can understand
+ */
+export const MIN_PROTOCOL_VERSION = 1;
+
+/**
+ * The message types that existed in protocol version 1. All others were added in version
+ * 2 and are not sent to a window that speaks version 1, because it would reject them.
+ */
+const PROTOCOL_VERSION_1_EVENT_TYPES = ["load", "init", "ready", "close", "interactions", "navigate"];
+
+/**
+ * Property types by name. A type is a typeof result, "array" or "any", optionally
+ * followed by "?" if the property may be absent.
+ */
+interface PropertyTypes {
+  [property: string]: string;
+}
+
+const MESSAGE_PROPERTY_TYPES: { [eventType: string]: PropertyTypes } = {
+  "load": { fullscreen: "boolean", protocolVersion: "number?" },
+  "init": {
+    content: "any",
+    layout: "object",
+    table: "string",
+    version: "string",
+    sessionId: "number",
+    requiredWidth: "number?",
+    requiredHeight: "number?",
+    locales: "array?",
+    storedState: "object?",
+    launchParams: "any?",
+    menuNodes: "array?",
+    videoInfo: "object?",
+    protocolVersion: "number?"
+  },
+  "ready": {},
+  "close": { result: "any?" },
+  "launchApp": { appId: "string", params: "any?", requestId: "string" },
+  "appResult": { appId: "string", result: "any?", requestId: "string" },
+  "setMenuNodes": { menuNodes: "array" },
+  "updateMenuNode": { id: "string", patch: "object" },
+  "interactions": { touchEvents: "array" },
+  "navigate": { navigateButtonId: "string" },
+  "layout": { layout: "object" },
+  "pause": {},
+  "resume": {},
+  "saveState": {},
+  "storeState": { key: "string", value: "any" },
+  "analytics": { events: "array" },
+  "heartbeat": {},
+  "error": {
+    errorType: "string",
+    message: "string",
+    protocolVersion: "number",
+    stack: "string?",
+    location: "string?",
+    appVersion: "string?",
+    table: "string?"
+  }
+};
+
+const TOUCH_EVENT_PROPERTY_TYPES: PropertyTypes = {
+  type: "string",
+  touches: "array",
+  changedTouches: "array",
+  altKey: "boolean",
+  ctrlKey: "boolean",
+  metaKey: "boolean",
+  shiftKey: "boolean"
+};
+
+const TOUCH_PROPERTY_TYPES: PropertyTypes = {
+  identifier: "number",
+  clientX: "number",
+  clientY: "number",
+  plateSpotId: "number?",
+  contentAreaId: "number?",
+  nearestPlateSpotId: "number?"
+};
+
+const ANALYTICS_EVENT_PROPERTY_TYPES: PropertyTypes = {
+  name: "string",
+  properties: "object",
+  timestamp: "number",
+  table: "string",
+  sessionId: "number",
+  appVersion: "string"
+};
+
+const LAYOUT_PROPERTY_TYPES: PropertyTypes = {
+  plateSpots: "array",
+  contentAreas: "array",
+  widthPx: "number",
+  heightPx: "number",
+  resolutionPixelsPerCm: "number"
+};
+
+const CIRCLE_PROPERTY_TYPES: PropertyTypes = {
+  type: "string",
+  id: "number",
+  x: "number",
+  y: "number",
+  radius: "number",
+  borderWidth: "number",
+  rotationDegrees: "number"
+};
+
+const RECTANGLE_PROPERTY_TYPES: PropertyTypes = {
+  type: "string",
+  id: "number",
+  x: "number",
+  y: "number",
+  width: "number",
+  height: "number",
+  rotationDegrees: "number"
+};
+
+/**
+ * Return the protocol version declared by a message
+ */
+export function getProtocolVersion(message: Message): number {
+  let version = (message as LoadMessage).protocolVersion;
+  return version === undefined ? 1 : version;
+}
+
+/**
+ * Return the protocol version to speak to a window that speaks another version: the
+ * older of the two, so that neither side sends messages the other does not understand.
+ * Returns null if the other window's version is older than MIN_PROTOCOL_VERSION.
+ */
+export function negotiateProtocolVersion(otherVersion: number): number {
+  if (otherVersion < MIN_PROTOCOL_VERSION) {
+    return null;
+  }
+  return Math.min(otherVersion, PROTOCOL_VERSION);
+}
+
+/**
+ * Return true if a message type can be sent to a window that speaks a protocol version
+ */
+export function isSupportedByProtocolVersion(eventType: string, version: number): boolean {
+  return version >= 2 || PROTOCOL_VERSION_1_EVENT_TYPES.indexOf(eventType) !== -1;
+}
+
+/**
+ * Check that a message received from another window has all the properties required by
+ * its eventType. Returns a list of problems, which is empty if the message is valid.
+ */
+export function validateMessage(message: any): string[] {
+  if (describeType(message) !== "object") {
+    return [`expected message to be an object, but it is ${describeType(message)}`];
+  }
+  let propertyTypes = MESSAGE_PROPERTY_TYPES[message.eventType];
+  if (!propertyTypes) {
+    return [`unrecognised eventType ${JSON.stringify(message.eventType)}`];
+  }
+  let errors: string[] = [];
+  let version = getProtocolVersion(message);
+  if (version < MIN_PROTOCOL_VERSION || Math.floor(version) !== version) {
+    errors.push(`protocol version ${version} is not supported, the minimum is ${MIN_PROTOCOL_VERSION}`);
+  }
+  validateProperties(message, propertyTypes, message.eventType, errors);
+  if ((message.eventType === "init" || message.eventType === "layout") && describeType(message.layout) === "object") {
+    errors.push(...validateLayout(message.layout, `${message.eventType}.layout`));
+  }
+  if (message.eventType === "interactions" && Array.isArray(message.touchEvents)) {
+    (message.touchEvents as any[]).forEach((touchEvent, i) => {
+      errors.push(...validateTouchEvent(touchEvent, `interactions.touchEvents[${i}]`));
+    });
+  }
+  if (message.eventType === "analytics") {
+    validateArrayItems(message.events, ANALYTICS_EVENT_PROPERTY_TYPES, "analytics.events", errors);
+  }
+  return errors;
+}
+
+/**
+ * Check that a touch event has all the required properties. Returns a list of problems,
+ * which is empty if the touch event is valid.
+ */
+export function validateTouchEvent(touchEvent: any, path = "touchEvent"): string[] {
+  let errors: string[] = [];
+  if (validateProperties(touchEvent, TOUCH_EVENT_PROPERTY_TYPES, path, errors)) {
+    validateArrayItems(touchEvent.touches, TOUCH_PROPERTY_TYPES, `${path}.touches`, errors);
+    validateArrayItems(touchEvent.changedTouches, TOUCH_PROPERTY_TYPES, `${path}.changedTouches`, errors);
+  }
+  return errors;
+}
+
+/**
+ * Check that a layout has all the required properties. Returns a list of problems, which is
+ * empty if the layout is valid.
+ */
+export function validateLayout(layout: any, path = "layout"): string[] {
+  let errors: string[] = [];
+  if (validateProperties(layout, LAYOUT_PROPERTY_TYPES, path, errors)) {
+    validateArrayItems(layout.plateSpots, CIRCLE_PROPERTY_TYPES, `${path}.plateSpots`, errors);
+    validateArrayItems(layout.contentAreas, RECTANGLE_PROPERTY_TYPES, `${path}.contentAreas`, errors);
+  }
+  return errors;
+}
+
+function validateArrayItems(items: any[], propertyTypes: PropertyTypes, path: string, errors: string[]) {
+  if (!Array.isArray(items)) {
+    // already reported by validateProperties
+    return;
+  }
+  items.forEach((item, i) => validateProperties(item, propertyTypes, `${path}[${i}]`, errors));
+}
+
+/**
+ * Validate the properties of an object, returning false if the object itself is missing
+ */
+function validateProperties(object: any, propertyTypes: PropertyTypes, path: string, errors: string[]): boolean {
+  if (describeType(object) !== "object") {
+    errors.push(`expected ${path} to be an object, but it is ${describeType(object)}`);
+    return false;
+  }
+  for (let property in propertyTypes) {
+    let expectedType = propertyTypes[property].replace("?", "");
+    let optional = expectedType !== propertyTypes[property];
+    let value = object[property];
+    if (value === undefined) {
+      if (!optional) {
+        errors.push(`${path}.${property} is missing`);
+      }
+    } else if (expectedType !== "any" && describeType(value) !== expectedType) {
+      errors.push(`expected ${path}.${property} to be ${expectedType}, but it is ${describeType(value)}`);
+    }
+  }
+  return true;
+}
+
+function describeType(value: any): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  return typeof value;
+}
@@ -0,0 +1,102 @@
+"use strict";
+
+import {
+  CrossWindowTouchEvent,
+  Layout,
+  validateLayout,
+  validateTouchEvent
+} from "./protocol";
+
+/**
+ * The version of the touch recording file format, see TouchRecording
+ */
+export const TOUCH_RECORDING_FORMAT_VERSION = 1;
+
+/**
+ * Touch events captured from a table, saved as a JSON file so that they can be replayed
+ * in development mode (with the URL parameter ?replayTouches=path/to/recording.json) or
+ * with OrdamoTestHarness.replayTouchRecording()
+ */
+export interface TouchRecording {
+  formatVersion: number;
+
+  /**
+   * The layout of the table when the recording started. Touches only make sense on the
+   * same layout, so replaying a recording also uses this layout.
+   */
+  layout: Layout;
+
+  /**
+   * The recorded events, oldest first
+   */
+  events: RecordedTouchEvent[];
+}
+
+export interface RecordedTouchEvent {
+  /**
+   * The number of milliseconds after the start of the recording that the event happened
+   */
+  time: number;
+  touchEvent: CrossWindowTouchEvent;
+}
+
+/**
+ * Collects touch events into a TouchRecording, see OrdamoSDK.startTouchRecording()
+ */
+export class TouchRecorder {
+
+  private _startTime: number;
+  private _events: RecordedTouchEvent[] = [];
+
+  /**
+   * @param _layout the layout that the touches happen on
+   * @param _now returns the current time in milliseconds, defaults to Date.now
+   */
+  constructor(private _layout: Layout, private _now: () => number = Date.now) {
+    this._startTime = _now();
+  }
+
+  record(touchEvent: CrossWindowTouchEvent): void {
+    this._events.push({
+      time: this._now() - this._startTime,
+      touchEvent: JSON.parse(JSON.stringify(touchEvent))
+    });
+  }
+
+  getRecording(): TouchRecording {
+    return JSON.parse(JSON.stringify({
+      formatVersion: TOUCH_RECORDING_FORMAT_VERSION,
+      layout: this._layout,
+      events: this._events
+    }));
+  }
+}
+
+/**
+ * Check that a touch recording loaded from a file can be replayed. Returns a list of
+ * problems, which is empty if the recording is valid.
+ */
+export function validateTouchRecording(recording: any, path = "recording"): string[] {
+  if (!recording || typeof recording !== "object" || Array.isArray(recording)) {
+    return [`expected ${path} to be an object`];
+  }
+  if (recording.formatVersion !== TOUCH_RECORDING_FORMAT_VERSION) {
+    return [`expected ${path}.formatVersion to be ${TOUCH_RECORDING_FORMAT_VERSION}, but it is ${JSON.stringify(recording.formatVersion)}`];
+  }
+  let problems = validateLayout(recording.layout, `${path}.layout`);
+  if (!Array.isArray(recording.events)) {
+    problems.push(`expected ${path}.events to be an array`);
+    return problems;
+  }
+  let lastTime = 0;
+  (recording.events as any[]).forEach((event, i) => {
+    let eventPath = `${path}.events[${i}]`;
+    if (!event || typeof event.time !== "number" || event.time < lastTime) {
+      problems.push(`expected ${eventPath}.time to be a number no less than the previous event's time`);
+    } else {
+      lastTime = event.time;
+    }
+    problems.push(...validateTouchEvent(event && event.touchEvent, `${eventPath}.touchEvent`));
+  });
+  return problems;
+}
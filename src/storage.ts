@@ -0,0 +1,73 @@
+"use strict";
+
+/**
+ * Where the SDK keeps the app's saved state, see OrdamoSDKOptions.stateStorage. This is
+ * the subset of the DOM Storage interface that the SDK uses, so window.sessionStorage and
+ * window.localStorage can be used directly.
+ */
+export interface StateStorage {
+  getItem(key: string): string;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * The built in kinds of state storage:
+ *
+ * "session" - sessionStorage, which lasts until the browser window is closed (the default)
+ * "local" - localStorage, which survives browser restarts
+ * "host" - stored by the host application, which survives the table being restarted
+ */
+export type StateStorageType = "session" | "local" | "host";
+
+/**
+ * State storage that keeps values in memory, useful for unit tests
+ */
+export class MemoryStateStorage implements StateStorage {
+
+  private _items: { [key: string]: string };
+
+  constructor(items: { [key: string]: string } = {}) {
+    this._items = Object.assign({}, items);
+  }
+
+  getItem(key: string): string {
+    return this._items.hasOwnProperty(key) ? this._items[key] : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this._items[key] = String(value);
+  }
+
+  removeItem(key: string): void {
+    delete this._items[key];
+  }
+
+  /**
+   * Return a copy of all stored values
+   */
+  getItems(): { [key: string]: string } {
+    return Object.assign({}, this._items);
+  }
+}
+
+/**
+ * State storage persisted by the host application. The host provides the stored values
+ * in InitMessage.storedState, and every change is sent to it in a StoreStateMessage.
+ */
+export class HostStateStorage extends MemoryStateStorage {
+
+  constructor(items: { [key: string]: string }, private _sendChange: (key: string, value: string) => void) {
+    super(items);
+  }
+
+  setItem(key: string, value: string): void {
+    super.setItem(key, value);
+    this._sendChange(key, this.getItem(key));
+  }
+
+  removeItem(key: string): void {
+    super.removeItem(key);
+    this._sendChange(key, null);
+  }
+}
@@ -0,0 +1,377 @@
+"use strict";
+
+import {
+  AppResultMessage,
+  CrossWindowTouchEvent,
+  InitMessage,
+  InteractionsMessage,
+  Layout,
+  LayoutMessage,
+  MenuNode,
+  Message,
+  NavigateMessage,
+  OrdamoSDK,
+  OrdamoSDKOptions,
+  PROTOCOL_VERSION,
+  SetMenuNodesMessage,
+  StoredState,
+  UpdateMenuNodeMessage,
+  VideoInfo
+} from "./index";
+
+import { Point, diffLayouts, isEmptyLayoutDiff } from "./geometry";
+import { makePresetLayout } from "./layouts";
+import { patchMenuNodes } from "./menu";
+import { TouchRecording } from "./recording";
+import { MemoryStateStorage } from "./storage";
+
+export interface TestHarnessOptions {
+  /**
+   * The content values sent in the init message, e.g. {heroImage: "hero.jpg"}. Required if
+   * the app has a content schema.
+   */
+  content?: any;
+
+  /**
+   * The layout sent in the init message, defaults to the "round4" preset at 1920x1080
+   */
+  layout?: Layout;
+
+  /**
+   * The table label, defaults to "1"
+   */
+  table?: string;
+
+  /**
+   * The session id, defaults to 1
+   */
+  sessionId?: number;
+
+  /**
+   * The app version, defaults to "1.0.0"
+   */
+  version?: string;
+
+  /**
+   * The diners' preferred locales
+   */
+  locales?: string[];
+
+  /**
+   * If set, the app starts with this saved state, as if it had been saved by the same
+   * version of the app in the same session
+   */
+  savedState?: any;
+
+  /**
+   * The parameters that the app is launched with, see OrdamoSDK.getLaunchParams()
+   */
+  launchParams?: any;
+
+  /**
+   * The app's navigation menu sent in the init message, defaults to an empty menu. See
+   * OrdamoTestHarness.getMenuNodes().
+   */
+  menuNodes?: MenuNode[];
+
+  /**
+   * Information about the videos in the content, see OrdamoSDK.getVideoInfo()
+   */
+  videoInfo?: { [videoPath: string]: VideoInfo };
+
+  /**
+   * The protocol version in the init message, defaults to PROTOCOL_VERSION. Use 1 to test
+   * the app against a host that does not support newer message types.
+   */
+  protocolVersion?: number;
+}
+
+interface Timer {
+  time: number;
+  callback: () => void;
+}
+
+/**
+ * Runs an app's OrdamoSDK instance without a host or browser, for unit tests. The harness
+ * plays the part of the host: it sends the init message and any other host messages, and
+ * records the messages that the app sends. Timers used by the SDK run on a fake clock
+ * that only moves when advanceTime() is called.
+ *
+ * The harness is not part of the main SDK module, so that it is not bundled into apps.
+ * Import it from "ordamo-v3-sdk/lib/testing".
+ *
+ *     let harness = new OrdamoTestHarness({ contentSchema, initCallback }, { content });
+ *     harness.init();
+ *     harness.sendNavigate("scores");
+ *     assert(harness.getSentMessages("ready").length === 1);
+ */
+export class OrdamoTestHarness<T> {
+
+  /**
+   * The SDK instance under test
+   */
+  sdk: OrdamoSDK<T>;
+
+  /**
+   * The storage used for saved state, unless the stateStorage option was passed
+   */
+  storage = new MemoryStateStorage();
+
+  private _options: TestHarnessOptions;
+  private _sentMessages: Message[] = [];
+  private _menuNodes: MenuNode[];
+  private _time = 0;
+  private _timers: Timer[] = [];
+
+  constructor(sdkOptions: OrdamoSDKOptions<T>, options: TestHarnessOptions = {}) {
+    this._options = options;
+    this._menuNodes = options.menuNodes || [];
+    if (options.savedState !== undefined) {
+      let storedForm: StoredState = {
+        timestamp: this._time,
+        state: options.savedState,
+        appVersion: this._getVersion(),
+        sessionId: this._getSessionId()
+      };
+      this.storage.setItem(TEST_SAVED_STATE_KEY, JSON.stringify(storedForm));
+    }
+    sdkOptions = Object.assign({ stateStorage: this.storage }, sdkOptions);
+    let testSdk = new TestOrdamoSDK(sdkOptions);
+    testSdk.harness = this;
+    testSdk.start();
+    this.sdk = testSdk;
+  }
+
+  /**
+   * Send the init message, which calls the app's initCallback
+   */
+  init(): void {
+    let options = this._options;
+    let message: InitMessage = {
+      eventType: "init",
+      content: options.content || {},
+      layout: options.layout || makePresetLayout("round4", 1920, 1080),
+      table: options.table || "1",
+      version: this._getVersion(),
+      sessionId: this._getSessionId(),
+      locales: options.locales,
+      launchParams: options.launchParams,
+      menuNodes: this._menuNodes,
+      videoInfo: options.videoInfo,
+      protocolVersion: options.protocolVersion === undefined ? PROTOCOL_VERSION : options.protocolVersion
+    };
+    this.sendMessage(message);
+  }
+
+  /**
+   * Send any message to the app as if from the host. Invalid messages are rejected just
+   * as they would be in a browser.
+   */
+  sendMessage(message: Message): void {
+    (this.sdk as TestOrdamoSDK<T>).receive(JSON.parse(JSON.stringify(message)));
+  }
+
+  /**
+   * Send touch events to the app, see OrdamoSDK.onInteractions and makeTestTouchEvent()
+   */
+  sendInteractions(touchEvents: CrossWindowTouchEvent[]): void {
+    let message: InteractionsMessage = { eventType: "interactions", touchEvents };
+    this.sendMessage(message);
+  }
+
+  /**
+   * Simulate a diner clicking on one of the app's navigation menu items
+   */
+  sendNavigate(navigateButtonId: string): void {
+    let message: NavigateMessage = { eventType: "navigate", navigateButtonId };
+    this.sendMessage(message);
+  }
+
+  /**
+   * Change the layout, see OrdamoSDK.onLayoutChange
+   */
+  sendLayout(layout: Layout): void {
+    let message: LayoutMessage = { eventType: "layout", layout };
+    this.sendMessage(message);
+  }
+
+  /**
+   * Send the events in a touch recording to the app, advancing the fake clock between them.
+   * Gestures take as long as they did when recorded only if the app times them with the
+   * SDK's clock, e.g. with a recogniser from OrdamoSDK.createGestureRecognizer(). If the
+   * app's layout differs from the recording's, the recording's layout is sent first. To
+   * avoid that, pass {layout: recording.layout} to the harness constructor.
+   */
+  replayTouchRecording(recording: TouchRecording): void {
+    if (!isEmptyLayoutDiff(diffLayouts(this.sdk.getLayout(), recording.layout))) {
+      this.sendLayout(recording.layout);
+    }
+    let elapsed = 0;
+    for (let event of recording.events) {
+      this.advanceTime(event.time - elapsed);
+      elapsed = event.time;
+      this.sendInteractions([event.touchEvent]);
+    }
+  }
+
+  /**
+   * Simulate an app launched with OrdamoSDK.launchApp() closing, see OrdamoSDK.onAppResult.
+   * The requestId is the one returned by launchApp().
+   */
+  sendAppResult(appId: string, result: any, requestId: string): void {
+    let message: AppResultMessage = { eventType: "appResult", appId, result, requestId };
+    this.sendMessage(message);
+  }
+
+  sendPause(): void {
+    this.sendMessage({ eventType: "pause" });
+  }
+
+  sendResume(): void {
+    this.sendMessage({ eventType: "resume" });
+  }
+
+  sendSaveState(): void {
+    this.sendMessage({ eventType: "saveState" });
+  }
+
+  /**
+   * Return the messages sent by the app, optionally only those of one type, oldest first.
+   * Heartbeats are sent every few seconds of fake time, so they are left out unless
+   * eventType is "heartbeat".
+   */
+  getSentMessages(eventType?: string): Message[] {
+    return this._sentMessages.filter(message => eventType ? message.eventType === eventType : message.eventType !== "heartbeat");
+  }
+
+  /**
+   * Return the app's navigation menu as a host would display it: the menuNodes option
+   * with the changes that the app has made with OrdamoSDK.setMenuNodes() and
+   * OrdamoSDK.updateMenuNode() applied
+   */
+  getMenuNodes(): MenuNode[] {
+    return this._menuNodes;
+  }
+
+  /**
+   * Forget the messages sent by the app so far
+   */
+  clearSentMessages(): void {
+    this._sentMessages = [];
+  }
+
+  /**
+   * Return the state most recently saved by the app in the harness's storage, or undefined
+   * if it has not saved any
+   */
+  getSavedState(): any {
+    let storedForm = this.storage.getItem(TEST_SAVED_STATE_KEY);
+    return storedForm ? (JSON.parse(storedForm) as StoredState).state : undefined;
+  }
+
+  /**
+   * Move the fake clock forward, running any timers that become due in order
+   */
+  advanceTime(milliseconds: number): void {
+    let endTime = this._time + milliseconds;
+    let next: Timer;
+    while ((next = this._timers.filter(timer => timer.time <= endTime).sort((a, b) => a.time - b.time)[0])) {
+      this._timers.splice(this._timers.indexOf(next), 1);
+      this._time = next.time;
+      next.callback();
+    }
+    this._time = endTime;
+  }
+
+  /**
+   * Return the time on the fake clock in milliseconds, which starts at 0
+   */
+  now(): number {
+    return this._time;
+  }
+
+  /** @internal */
+  recordSentMessage(message: Message): void {
+    message = JSON.parse(JSON.stringify(message));
+    this._sentMessages.push(message);
+    if (message.eventType === "setMenuNodes") {
+      this._menuNodes = (message as SetMenuNodesMessage).menuNodes;
+    } else if (message.eventType === "updateMenuNode") {
+      let update = message as UpdateMenuNodeMessage;
+      this._menuNodes = patchMenuNodes(this._menuNodes, update.id, update.patch) || this._menuNodes;
+    }
+  }
+
+  /** @internal */
+  addTimer(callback: () => void, milliseconds: number): void {
+    this._timers.push({ time: this._time + milliseconds, callback });
+  }
+
+  private _getVersion() {
+    return this._options.version || "1.0.0";
+  }
+
+  private _getSessionId() {
+    return this._options.sessionId === undefined ? 1 : this._options.sessionId;
+  }
+}
+
+/**
+ * Make a touch event for OrdamoTestHarness.sendInteractions(). Each point becomes a touch
+ * whose identifier is its index.
+ */
+export function makeTestTouchEvent(type: string, points: Point[]): CrossWindowTouchEvent {
+  let touches = points.map((point, identifier) => ({ identifier, clientX: point.x, clientY: point.y }));
+  return {
+    type,
+    touches: type === "touchend" || type === "touchcancel" ? [] : touches,
+    changedTouches: touches,
+    altKey: false,
+    ctrlKey: false,
+    metaKey: false,
+    shiftKey: false
+  };
+}
+
+const TEST_SAVED_STATE_KEY = "ordamo-sdk-content-test";
+
+/**
+ * An SDK that talks to a test harness instead of a host window
+ */
+class TestOrdamoSDK<T> extends OrdamoSDK<T> {
+
+  harness: OrdamoTestHarness<T>;
+
+  start() {
+    this._sendLoadMessage();
+    this._startHeartbeat();
+  }
+
+  receive(message: Message) {
+    this._receiveMessage(message);
+  }
+
+  protected _initialise() {
+    // the harness is not available yet, it calls start() once the SDK is constructed
+  }
+
+  protected _sendParentMessage(message: Message) {
+    this.harness.recordSentMessage(message);
+  }
+
+  protected _isHosted(): boolean {
+    return true;
+  }
+
+  protected _setTimeout(callback: () => void, milliseconds: number): void {
+    this.harness.addTimer(callback, milliseconds);
+  }
+
+  protected _now(): number {
+    return this.harness.now();
+  }
+
+  protected _getSavedStateKey() {
+    return TEST_SAVED_STATE_KEY;
+  }
+}
@@ -0,0 +1,51 @@
+"use strict";
+
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as rimraf from "rimraf";
+import test = require("node:test");
+
+import { readImageSize } from "../../src/bin/image-size";
+
+const TEMP_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "image-size-test-"));
+
+test.after(() => rimraf.sync(TEMP_DIR));
+
+function writeFile(name: string, bytes: number[]): string {
+  let file = path.join(TEMP_DIR, name);
+  fs.writeFileSync(file, Buffer.from(bytes));
+  return file;
+}
+
+test("reads the size of a PNG", () => {
+  let file = writeFile("a.png", [
+    0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A,
+    0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52,
+    0, 0, 0x07, 0x80, 0, 0, 0x04, 0x38
+  ]);
+  assert.deepStrictEqual(readImageSize(file), { width: 1920, height: 1080 });
+});
+
+test("reads the size of a GIF", () => {
+  let file = writeFile("a.gif", [0x47, 0x49, 0x46, 0x38, 0x39, 0x61, 0x40, 0x01, 0xF0, 0x00]);
+  assert.deepStrictEqual(readImageSize(file), { width: 320, height: 240 });
+});
+
+test("reads the size of a JPEG from the frame header after other segments", () => {
+  let file = writeFile("a.jpg", [
+    0xFF, 0xD8,
+    // an APP0 segment, then a fill byte
+    0xFF, 0xE0, 0x00, 0x04, 0x00, 0x00, 0xFF,
+    // a progressive frame header, with the height before the width
+    0xFF, 0xC2, 0x00, 0x0B, 0x08, 0x02, 0x58, 0x03, 0x20, 0x01, 0x01, 0x11, 0x00
+  ]);
+  assert.deepStrictEqual(readImageSize(file), { width: 800, height: 600 });
+});
+
+test("returns null for other and truncated files", () => {
+  assert.strictEqual(readImageSize(writeFile("a.txt", [0x68, 0x69])), null);
+  assert.strictEqual(readImageSize(writeFile("short.png", [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A])), null);
+  assert.strictEqual(readImageSize(writeFile("short.jpg", [0xFF, 0xD8, 0xFF, 0xE0, 0x00, 0x10])), null);
+});
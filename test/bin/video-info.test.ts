@@ -0,0 +1,161 @@
+"use strict";
+
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as rimraf from "rimraf";
+import test = require("node:test");
+
+import { readVideoInfo } from "../../src/bin/video-info";
+
+const TEMP_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "video-info-test-"));
+
+test.after(() => rimraf.sync(TEMP_DIR));
+
+function writeFile(name: string, data: Buffer): string {
+  let file = path.join(TEMP_DIR, name);
+  fs.writeFileSync(file, data);
+  return file;
+}
+
+function uint(value: number, length: number): Buffer {
+  let buffer = Buffer.alloc(length);
+  buffer.writeUIntBE(value, 0, length);
+  return buffer;
+}
+
+function uintLE(value: number, length: number): Buffer {
+  let buffer = Buffer.alloc(length);
+  buffer.writeUIntLE(value, 0, length);
+  return buffer;
+}
+
+function ascii(text: string): Buffer {
+  return Buffer.from(text, "binary");
+}
+
+
+//
+// MP4
+//
+
+function box(type: string, ...body: Buffer[]): Buffer {
+  let content = Buffer.concat(body);
+  return Buffer.concat([uint(8 + content.length, 4), ascii(type), content]);
+}
+
+function mp4Track(handler: string, codec: string, width = 0, height = 0): Buffer {
+  // a sample entry's width and height follow 24 bytes of reserved and unused fields
+  let sampleEntry = box(codec, Buffer.alloc(24), uint(width, 2), uint(height, 2));
+  return box("trak",
+    box("tkhd", Buffer.alloc(84)),
+    box("mdia",
+      box("hdlr", Buffer.alloc(8), ascii(handler), Buffer.alloc(12)),
+      box("minf",
+        box("stbl",
+          box("stsd", Buffer.alloc(4), uint(1, 4), sampleEntry)))));
+}
+
+function mp4(...tracks: Buffer[]): Buffer {
+  return Buffer.concat([
+    box("ftyp", ascii("isom"), uint(0, 4)),
+    box("moov", box("mvhd", Buffer.alloc(12), uint(1000, 4), uint(12480, 4), Buffer.alloc(80)), ...tracks),
+    box("mdat", Buffer.alloc(16))
+  ]);
+}
+
+test("reads the first video track of an MP4", () => {
+  let file = writeFile("a.mp4", mp4(mp4Track("soun", "mp4a"), mp4Track("vide", "avc1", 1280, 720)));
+  assert.deepStrictEqual(readVideoInfo(file), { container: "mp4", codec: "avc1", width: 1280, height: 720, durationSeconds: 12.48 });
+});
+
+test("returns null for an MP4 without video or with corrupt boxes", () => {
+  assert.strictEqual(readVideoInfo(writeFile("audio.mp4", mp4(mp4Track("soun", "mp4a")))), null);
+  let corrupt = mp4(mp4Track("vide", "avc1", 1280, 720));
+  corrupt.writeUInt32BE(0xFFFF, 16);
+  assert.strictEqual(readVideoInfo(writeFile("corrupt.mp4", corrupt)), null);
+});
+
+
+//
+// WEBM
+//
+
+function element(id: number, ...body: Buffer[]): Buffer {
+  let content = Buffer.concat(body);
+  let idLength = Math.ceil(Math.log(id + 1) / Math.log(256));
+  // an 8 byte size, with the length marker in the first byte
+  return Buffer.concat([uint(id, idLength), Buffer.from([0x01, 0x00]), uint(content.length, 6), content]);
+}
+
+function float64(value: number): Buffer {
+  let buffer = Buffer.alloc(8);
+  buffer.writeDoubleBE(value, 0);
+  return buffer;
+}
+
+test("reads the video track of a WebM file with a segment of unknown size", () => {
+  let segment = Buffer.concat([
+    element(0x1549A966, element(0x2AD7B1, uint(1000000, 3)), element(0x4489, float64(12480))),
+    element(0x1654AE6B,
+      element(0xAE, element(0x83, uint(2, 1)), element(0x86, ascii("A_OPUS"))),
+      element(0xAE, element(0x83, uint(1, 1)), element(0x86, ascii("V_VP9")),
+        element(0xE0, element(0xB0, uint(1280, 2)), element(0xBA, uint(720, 2))))),
+    element(0x1F43B675, Buffer.alloc(16))
+  ]);
+  let file = writeFile("a.webm", Buffer.concat([
+    element(0x1A45DFA3, element(0x4282, ascii("webm"))),
+    uint(0x18538067, 4), Buffer.from([0x01, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF]), segment
+  ]));
+  assert.deepStrictEqual(readVideoInfo(file), { container: "webm", codec: "V_VP9", width: 1280, height: 720, durationSeconds: 12.48 });
+});
+
+
+//
+// OGG
+//
+
+/**
+ * An Ogg page holding one packet. A granule position of -1 means that no packet ends on it.
+ */
+function oggPage(headerType: number, granulePosition: number, serialNumber: number, data: Buffer): Buffer {
+  let granule = granulePosition === -1 ? Buffer.alloc(8, 0xFF) : Buffer.concat([
+    uintLE(granulePosition % 0x100000000, 4), uintLE(Math.floor(granulePosition / 0x100000000), 4)
+  ]);
+  return Buffer.concat([
+    ascii("OggS"), Buffer.from([0, headerType]), granule,
+    uintLE(serialNumber, 4), Buffer.alloc(8), Buffer.from([1, data.length]), data
+  ]);
+}
+
+function theoraHeader(width: number, height: number, frameRate: number, keyframeGranuleShift: number): Buffer {
+  let header = Buffer.alloc(42);
+  header.write("\x80theora\x03\x02\x01", 0, 10, "binary");
+  header.writeUIntBE(width, 14, 3);
+  header.writeUIntBE(height, 17, 3);
+  header.writeUInt32BE(frameRate, 22);
+  header.writeUInt32BE(1, 26);
+  header[40] = keyframeGranuleShift >> 3;
+  header[41] = (keyframeGranuleShift & 0x07) << 5;
+  return header;
+}
+
+test("reads the Theora stream of an Ogg file", () => {
+  const BEGINNING_OF_STREAM = 0x02, END_OF_STREAM = 0x04, NO_GRANULE = -1;
+  let keyframe = 300, framesSinceKeyframe = 12, shift = 6;
+  let file = writeFile("a.ogv", Buffer.concat([
+    oggPage(BEGINNING_OF_STREAM, 0, 1, Buffer.concat([ascii("\x01vorbis"), Buffer.alloc(23)])),
+    oggPage(BEGINNING_OF_STREAM, 0, 2, theoraHeader(1280, 720, 25, shift)),
+    oggPage(0, keyframe * Math.pow(2, shift) + framesSinceKeyframe, 2, Buffer.alloc(100)),
+    oggPage(0, NO_GRANULE, 2, Buffer.alloc(100)),
+    oggPage(END_OF_STREAM, 999999, 1, Buffer.alloc(100))
+  ]));
+  assert.deepStrictEqual(readVideoInfo(file), { container: "ogg", codec: "theora", width: 1280, height: 720, durationSeconds: 12.48 });
+});
+
+test("returns null for an Ogg file without video", () => {
+  let file = writeFile("a.ogg", oggPage(0x02, 0, 1, Buffer.concat([ascii("\x01vorbis"), Buffer.alloc(23)])));
+  assert.strictEqual(readVideoInfo(file), null);
+  assert.strictEqual(readVideoInfo(writeFile("a.txt", ascii("not a video"))), null);
+});
@@ -0,0 +1,75 @@
+"use strict";
+
+import * as assert from "assert";
+import test = require("node:test");
+
+import { Circle, Layout, Rectangle } from "../src/protocol";
+import {
+  Point,
+  attributeTouch,
+  containsPoint,
+  diffLayouts,
+  findNearestPlateSpot,
+  fromLocal,
+  getUpDirection,
+  isEmptyLayoutDiff,
+  toLocal
+} from "../src/geometry";
+
+function circle(id: number, x: number, y: number, rotationDegrees = 0): Circle {
+  return { type: "circle", id, x, y, radius: 50, rotationDegrees, borderWidth: 5 };
+}
+
+function rectangle(id: number, x: number, y: number, rotationDegrees = 0): Rectangle {
+  return { type: "rectangle", id, x, y, width: 200, height: 100, rotationDegrees };
+}
+
+function layout(plateSpots: Circle[], contentAreas: Rectangle[] = []): Layout {
+  return { widthPx: 1000, heightPx: 1000, resolutionPixelsPerCm: 10, plateSpots, contentAreas };
+}
+
+function assertNear(actual: Point, expected: Point) {
+  assert.ok(Math.abs(actual.x - expected.x) < 1e-9 && Math.abs(actual.y - expected.y) < 1e-9,
+    `expected ${JSON.stringify(actual)} to be ${JSON.stringify(expected)}`);
+}
+
+test("toLocal rotates points into the diner's frame", () => {
+  // a diner on the left of the table faces right, so "up" for them is towards +x
+  let plateSpot = circle(0, 100, 500, 90);
+  assertNear(toLocal({ x: 150, y: 500 }, plateSpot), { x: 0, y: -50 });
+  assertNear(getUpDirection(plateSpot), { x: 1, y: 0 });
+});
+
+test("fromLocal is the inverse of toLocal", () => {
+  let shape = rectangle(0, 300, 200, 30);
+  let point = { x: 320, y: 170 };
+  assertNear(fromLocal(toLocal(point, shape), shape), point);
+});
+
+test("containsPoint includes the edge of circles and rotated rectangles", () => {
+  assert.ok(containsPoint(circle(0, 0, 0), { x: 50, y: 0 }));
+  assert.ok(!containsPoint(circle(0, 0, 0), { x: 36, y: 36 }));
+  let turned = rectangle(0, 500, 500, 90);
+  assert.ok(containsPoint(turned, { x: 500, y: 590 }));
+  assert.ok(!containsPoint(turned, { x: 590, y: 500 }));
+});
+
+test("attributeTouch finds the shapes under a touch and the nearest plate spot", () => {
+  let table = layout([circle(0, 100, 100), circle(1, 900, 900)], [rectangle(2, 500, 500)]);
+  let touch = attributeTouch(table, { identifier: 0, clientX: 450, clientY: 480 });
+  assert.strictEqual(touch.plateSpotId, undefined);
+  assert.strictEqual(touch.contentAreaId, 2);
+  assert.strictEqual(touch.nearestPlateSpotId, 0);
+  assert.strictEqual(findNearestPlateSpot(layout([]), { x: 0, y: 0 }), null);
+});
+
+test("diffLayouts matches shapes by id", () => {
+  let before = layout([circle(0, 100, 100), circle(1, 900, 900)], [rectangle(2, 500, 500)]);
+  let after = layout([circle(0, 100, 100), circle(1, 800, 900), circle(3, 100, 900)], []);
+  let diff = diffLayouts(before, after);
+  assert.deepStrictEqual(diff.addedPlateSpots.map(shape => shape.id), [3]);
+  assert.deepStrictEqual(diff.movedPlateSpots.map(shape => shape.id), [1]);
+  assert.deepStrictEqual(diff.removedPlateSpots, []);
+  assert.deepStrictEqual(diff.removedContentAreas.map(shape => shape.id), [2]);
+  assert.ok(isEmptyLayoutDiff(diffLayouts(before, JSON.parse(JSON.stringify(before)))));
+});
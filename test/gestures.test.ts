@@ -0,0 +1,114 @@
+"use strict";
+
+import * as assert from "assert";
+import test = require("node:test");
+
+import { CrossWindowTouchEvent, Layout } from "../src/protocol";
+import { Gesture, GestureRecognizer } from "../src/gestures";
+
+// 10px per cm, with a diner at the bottom of the table facing up and one at the top facing down
+const LAYOUT: Layout = {
+  widthPx: 1000,
+  heightPx: 1000,
+  resolutionPixelsPerCm: 10,
+  plateSpots: [
+    { type: "circle", id: 0, x: 500, y: 900, radius: 50, rotationDegrees: 0, borderWidth: 5 },
+    { type: "circle", id: 1, x: 500, y: 100, radius: 50, rotationDegrees: 180, borderWidth: 5 }
+  ],
+  contentAreas: []
+};
+
+/**
+ * A recogniser on a fake clock, with the gestures that it has recognised
+ */
+function makeRecognizer() {
+  let time = 0;
+  let timers: { time: number, callback: () => void }[] = [];
+  let gestures: Gesture[] = [];
+  let recognizer = new GestureRecognizer({
+    layout: LAYOUT,
+    onGesture: gesture => gestures.push(gesture),
+    now: () => time,
+    setTimeout: (callback, milliseconds) => timers.push({ time: time + milliseconds, callback })
+  });
+  let advanceTime = (milliseconds: number) => {
+    time += milliseconds;
+    timers.filter(timer => timer.time <= time).forEach(timer => {
+      timers.splice(timers.indexOf(timer), 1);
+      timer.callback();
+    });
+  };
+  let send = (type: string, ...touches: [number, number, number][]) => {
+    recognizer.handleTouchEvent(makeTouchEvent(type, touches));
+  };
+  return { gestures, advanceTime, send };
+}
+
+function makeTouchEvent(type: string, touches: [number, number, number][]): CrossWindowTouchEvent {
+  let changedTouches = touches.map(([identifier, clientX, clientY]) => ({ identifier, clientX, clientY }));
+  return {
+    type,
+    touches: changedTouches,
+    changedTouches,
+    altKey: false,
+    ctrlKey: false,
+    metaKey: false,
+    shiftKey: false
+  };
+}
+
+test("two quick taps close together are a double tap", () => {
+  let { gestures, advanceTime, send } = makeRecognizer();
+  send("touchstart", [0, 500, 500]);
+  advanceTime(100);
+  send("touchend", [0, 502, 500]);
+  advanceTime(100);
+  send("touchstart", [0, 505, 505]);
+  advanceTime(100);
+  send("touchend", [0, 505, 505]);
+  assert.deepStrictEqual(gestures.map(gesture => gesture.type), ["tap", "tap", "doubletap"]);
+  assert.strictEqual(gestures[0].plateSpotId, 0);
+});
+
+test("holding a finger still is a long press and not a tap", () => {
+  let { gestures, advanceTime, send } = makeRecognizer();
+  send("touchstart", [0, 500, 500]);
+  advanceTime(600);
+  send("touchend", [0, 500, 500]);
+  assert.deepStrictEqual(gestures.map(gesture => gesture.type), ["longpress"]);
+});
+
+test("moving a finger cancels a long press", () => {
+  let { gestures, advanceTime, send } = makeRecognizer();
+  send("touchstart", [0, 500, 500]);
+  send("touchmove", [0, 550, 500]);
+  advanceTime(1000);
+  assert.deepStrictEqual(gestures, []);
+});
+
+test("swipe directions are relative to the nearest diner", () => {
+  let { gestures, advanceTime, send } = makeRecognizer();
+  send("touchstart", [0, 500, 800]);
+  advanceTime(100);
+  send("touchend", [0, 500, 700]);
+  send("touchstart", [0, 500, 300]);
+  advanceTime(100);
+  send("touchend", [0, 500, 200]);
+  assert.deepStrictEqual(gestures.map(gesture => [gesture.type, gesture.direction, gesture.plateSpotId]), [
+    ["swipe", "up", 0],
+    ["swipe", "down", 1]
+  ]);
+  assert.strictEqual(gestures[0].distanceCm, 10);
+});
+
+test("two fingers moving apart are a pinch", () => {
+  let { gestures, send } = makeRecognizer();
+  send("touchstart", [0, 450, 500]);
+  send("touchstart", [1, 550, 500]);
+  send("touchmove", [0, 400, 500], [1, 600, 500]);
+  send("touchend", [0, 400, 500]);
+  send("touchend", [1, 600, 500]);
+  assert.deepStrictEqual(gestures.map(gesture => [gesture.type, gesture.scale, gesture.x, gesture.y]), [
+    ["pinch", 2, 500, 500]
+  ]);
+});
@@ -0,0 +1,39 @@
+"use strict";
+
+import * as assert from "assert";
+import test = require("node:test");
+
+import { CONTENT_SCHEMA_VERSION_KEY, ContentMigrations, getContentSchemaVersion, migrateContent } from "../src/index";
+
+const MIGRATIONS: ContentMigrations = {
+  2: content => ({ title: content.heading }),
+  3: content => Object.assign(content, { subtitle: "" })
+};
+
+test("the content schema version is the highest migration", () => {
+  assert.strictEqual(getContentSchemaVersion(), 1);
+  assert.strictEqual(getContentSchemaVersion(MIGRATIONS), 3);
+});
+
+test("migrateContent applies each later migration in order", () => {
+  let content = { heading: "Welcome" };
+  let migrated = migrateContent(content, 3, MIGRATIONS);
+  assert.deepStrictEqual(migrated, { title: "Welcome", subtitle: "", [CONTENT_SCHEMA_VERSION_KEY]: 3 });
+  assert.deepStrictEqual(content, { heading: "Welcome" });
+});
+
+test("migrateContent starts from the version recorded in the content", () => {
+  let content = { title: "Welcome", [CONTENT_SCHEMA_VERSION_KEY]: 2 };
+  assert.deepStrictEqual(migrateContent(content, 3, MIGRATIONS), { title: "Welcome", subtitle: "", [CONTENT_SCHEMA_VERSION_KEY]: 3 });
+});
+
+test("migrateContent leaves content from a newer schema alone", () => {
+  let content = { title: "Welcome", [CONTENT_SCHEMA_VERSION_KEY]: 4 };
+  let error = console.error;
+  console.error = (): void => undefined;
+  try {
+    assert.strictEqual(migrateContent(content, 3, MIGRATIONS), content);
+  } finally {
+    console.error = error;
+  }
+});
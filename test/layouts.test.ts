@@ -0,0 +1,46 @@
+"use strict";
+
+import * as assert from "assert";
+import test = require("node:test");
+
+import { validateLayout } from "../src/protocol";
+import { diffLayouts } from "../src/geometry";
+import { LAYOUT_PRESETS, isLayoutPreset, makeGridLayout, makePresetLayout, parseGridLayoutParams } from "../src/layouts";
+
+test("every preset makes a valid layout with one content area per diner", () => {
+  for (let name of LAYOUT_PRESETS) {
+    let layout = makePresetLayout(name, 1920, 1080);
+    assert.deepStrictEqual(validateLayout(layout), [], name);
+    assert.strictEqual(layout.plateSpots.length, parseInt(name.replace(/\D/g, "")), name);
+    assert.strictEqual(layout.contentAreas.length, layout.plateSpots.length, name);
+  }
+  assert.strictEqual(makePresetLayout("round4", 1920, 1080, 5).plateSpots.length, 5);
+  assert.ok(isLayoutPreset("rect12"));
+  assert.ok(!isLayoutPreset("square4"));
+  assert.throws(() => makePresetLayout("square4", 1920, 1080), /not a layout preset/);
+});
+
+test("round presets face every diner towards the centre of the table", () => {
+  let layout = makePresetLayout("round4", 1000, 1000);
+  assert.deepStrictEqual(layout.plateSpots.map(plateSpot => plateSpot.rotationDegrees), [0, 90, 180, 270]);
+});
+
+test("grid layout options are read from URL parameters", () => {
+  let params: { [name: string]: string } = { plateSpots: "4", rotations: "0,45,x,180", avoidCentre: "1" };
+  assert.deepStrictEqual(parseGridLayoutParams(name => params[name]), {
+    plateSpots: 4,
+    contentAreas: undefined,
+    rotation: undefined,
+    rotations: [0, 45, 180],
+    avoidCentre: true
+  });
+});
+
+test("adding a diner to a grid layout doesn't change the content area ids", () => {
+  let before = makeGridLayout(1920, 1080, { plateSpots: 2, contentAreas: 2, rotations: [0, 180] });
+  let after = makeGridLayout(1920, 1080, { plateSpots: 3, contentAreas: 2, rotations: [0, 180] });
+  assert.deepStrictEqual(validateLayout(after), []);
+  assert.deepStrictEqual(after.plateSpots.map(plateSpot => plateSpot.rotationDegrees), [0, 180, 0]);
+  assert.deepStrictEqual(after.contentAreas.map(contentArea => contentArea.id), [0, 1]);
+  assert.deepStrictEqual(diffLayouts(before, after).addedPlateSpots.map(plateSpot => plateSpot.id), [2]);
+});
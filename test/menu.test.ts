@@ -0,0 +1,46 @@
+"use strict";
+
+import * as assert from "assert";
+import test = require("node:test");
+
+import { MenuNode } from "../src/protocol";
+import { findMenuNode, patchMenuNodes, validateMenuNodeIds } from "../src/menu";
+
+function makeMenu(): MenuNode[] {
+  return [
+    { id: "scores", iconSrc: "scores.png", navigateButtonId: "scores" },
+    {
+      id: "games", iconSrc: "games.png", children: [
+        { id: "quiz", iconSrc: "quiz.png", navigateButtonId: "quiz" },
+        { id: "bingo", iconSrc: "bingo.png", navigateButtonId: "bingo", enabled: false }
+      ]
+    }
+  ];
+}
+
+test("findMenuNode searches children", () => {
+  assert.strictEqual(findMenuNode(makeMenu(), "bingo").iconSrc, "bingo.png");
+  assert.strictEqual(findMenuNode(makeMenu(), "darts"), null);
+});
+
+test("patchMenuNodes changes a nested node without changing the original menu", () => {
+  let menu = makeMenu();
+  let patched = patchMenuNodes(menu, "bingo", { enabled: true, badge: "3", id: "renamed" });
+  assert.deepStrictEqual(patched[1].children[1], { id: "bingo", iconSrc: "bingo.png", navigateButtonId: "bingo", enabled: true, badge: "3" });
+  assert.strictEqual(patched[0], menu[0]);
+  assert.deepStrictEqual(menu, makeMenu());
+});
+
+test("patchMenuNodes returns null if there is no node with the id", () => {
+  assert.strictEqual(patchMenuNodes(makeMenu(), "darts", { hidden: true }), null);
+  assert.strictEqual(patchMenuNodes(null, "darts", { hidden: true }), null);
+});
+
+test("validateMenuNodeIds reports duplicate ids with their paths", () => {
+  assert.deepStrictEqual(validateMenuNodeIds(makeMenu()), []);
+  let menu = makeMenu();
+  menu[1].children[1].id = "scores";
+  assert.deepStrictEqual(validateMenuNodeIds(menu), [
+    `menuNodes[1].children[1] has the id "scores", which is already used by menuNodes[0]`
+  ]);
+});
@@ -0,0 +1,12 @@
+/**
+ * The parts of Node's built in test runner used by the tests, which the node typings
+ * predate
+ */
+declare module "node:test" {
+  interface Test {
+    (name: string, fn: () => void): void;
+    after(fn: () => void): void;
+  }
+  const test: Test;
+  export = test;
+}
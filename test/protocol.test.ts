@@ -0,0 +1,88 @@
+"use strict";
+
+import * as assert from "assert";
+import test = require("node:test");
+
+import {
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  getProtocolVersion,
+  isSupportedByProtocolVersion,
+  negotiateProtocolVersion,
+  validateLayout,
+  validateMessage,
+  validateTouchEvent
+} from "../src/protocol";
+import { makePresetLayout } from "../src/layouts";
+
+function makeInitMessage(): any {
+  return {
+    eventType: "init",
+    content: {},
+    layout: makePresetLayout("round2", 1920, 1080),
+    table: "1",
+    version: "1.0.0",
+    sessionId: 1,
+    protocolVersion: PROTOCOL_VERSION
+  };
+}
+
+test("valid messages have no problems", () => {
+  assert.deepStrictEqual(validateMessage(makeInitMessage()), []);
+  assert.deepStrictEqual(validateMessage({ eventType: "load", fullscreen: false }), []);
+  assert.deepStrictEqual(validateMessage({ eventType: "close" }), []);
+});
+
+test("validateMessage reports missing and mistyped properties", () => {
+  let message = makeInitMessage();
+  delete message.table;
+  message.sessionId = "1";
+  message.locales = null;
+  assert.deepStrictEqual(validateMessage(message), [
+    "init.table is missing",
+    "expected init.sessionId to be number, but it is string",
+    "expected init.locales to be array, but it is null"
+  ]);
+});
+
+test("validateMessage rejects unknown messages and unsupported protocol versions", () => {
+  assert.deepStrictEqual(validateMessage("init"), ["expected message to be an object, but it is string"]);
+  assert.deepStrictEqual(validateMessage({ eventType: "explode" }), ["unrecognised eventType \"explode\""]);
+  assert.deepStrictEqual(validateMessage({ eventType: "ready", protocolVersion: 0.5 }), [
+    `protocol version 0.5 is not supported, the minimum is ${MIN_PROTOCOL_VERSION}`
+  ]);
+});
+
+test("validateMessage checks nested layouts, touch events and analytics events", () => {
+  let init = makeInitMessage();
+  delete init.layout.plateSpots[1].radius;
+  assert.deepStrictEqual(validateMessage(init), ["init.layout.plateSpots[1].radius is missing"]);
+
+  let touchEvent = { type: "touchstart", touches: [{ identifier: 0, clientX: 1 }], altKey: false, ctrlKey: false, metaKey: false, shiftKey: false };
+  let interactions = { eventType: "interactions", touchEvents: [touchEvent] };
+  assert.deepStrictEqual(validateMessage(interactions), [
+    "interactions.touchEvents[0].changedTouches is missing",
+    "interactions.touchEvents[0].touches[0].clientY is missing"
+  ]);
+
+  assert.ok(validateMessage({ eventType: "analytics", events: [{}] }).length > 0);
+});
+
+test("validateLayout and validateTouchEvent use the path they are given", () => {
+  assert.deepStrictEqual(validateLayout(null, "table"), ["expected table to be an object, but it is null"]);
+  assert.deepStrictEqual(validateTouchEvent([]), ["expected touchEvent to be an object, but it is array"]);
+});
+
+test("the protocol version is negotiated down to the older side's", () => {
+  assert.strictEqual(getProtocolVersion({ eventType: "init" }), 1);
+  assert.strictEqual(getProtocolVersion(makeInitMessage()), PROTOCOL_VERSION);
+  assert.strictEqual(negotiateProtocolVersion(1), 1);
+  assert.strictEqual(negotiateProtocolVersion(PROTOCOL_VERSION + 1), PROTOCOL_VERSION);
+  assert.strictEqual(negotiateProtocolVersion(MIN_PROTOCOL_VERSION - 1), null);
+});
+
+test("version 1 of the protocol only supports the original messages", () => {
+  assert.ok(isSupportedByProtocolVersion("interactions", 1));
+  assert.ok(!isSupportedByProtocolVersion("heartbeat", 1));
+  assert.ok(isSupportedByProtocolVersion("heartbeat", 2));
+});
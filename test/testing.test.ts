@@ -0,0 +1,144 @@
+"use strict";
+
+import * as assert from "assert";
+import test = require("node:test");
+
+import { LaunchAppMessage, Message } from "../src/protocol";
+import { group, number, objectList, text } from "../src/index";
+import { OrdamoTestHarness, makeTestTouchEvent } from "../src/testing";
+
+const SCHEMA = {
+  dish: group({
+    title: "Dish of the day",
+    fields: {
+      name: text({ title: "Name", minLength: 1, maxLength: 50, multiline: false }),
+      calories: number({ title: "Calories", integer: true })
+    }
+  }),
+  specials: objectList({
+    title: "Specials",
+    minCount: 0,
+    maxCount: 5,
+    fields: {
+      name: text({ title: "Name", minLength: 1, maxLength: 50, multiline: false })
+    }
+  })
+};
+
+const CONTENT = {
+  dish: { name: "Soup", calories: 200 },
+  specials: [{ name: "Pie" }]
+};
+
+function quietly<R>(fn: () => R): R {
+  let log = console.log;
+  console.log = (): void => undefined;
+  try {
+    return fn();
+  } finally {
+    console.log = log;
+  }
+}
+
+function makeHarness(options: { protocolVersion?: number, savedState?: any } = {}) {
+  let initialised = 0;
+  let harness = quietly(() => new OrdamoTestHarness({
+    contentSchema: SCHEMA,
+    initCallback: () => initialised++,
+    saveStateCallback: () => ({ score: 3 })
+  }, Object.assign({ content: CONTENT }, options)));
+  return { harness, getInitCount: () => initialised };
+}
+
+function getEventTypes(messages: Message[]) {
+  return messages.map(message => message.eventType);
+}
+
+test("init calls initCallback with the content, including the fields of groups", () => {
+  let { harness, getInitCount } = makeHarness();
+  assert.deepStrictEqual(getEventTypes(harness.getSentMessages()), ["load"]);
+  quietly(() => harness.init());
+  assert.strictEqual(getInitCount(), 1);
+  let content = harness.sdk.getContent();
+  assert.deepStrictEqual(content.dish.value, CONTENT.dish);
+  assert.strictEqual(content.dish.fields.name.value, "Soup");
+  assert.strictEqual(content.dish.fields.calories.value, 200);
+  assert.deepStrictEqual(content.specials.value, CONTENT.specials);
+});
+
+test("host messages reach the app's callbacks", () => {
+  let { harness } = makeHarness();
+  let navigated: string[] = [];
+  harness.sdk.onNavigate = message => navigated.push(message.navigateButtonId);
+  quietly(() => harness.init());
+  harness.sendNavigate("scores");
+  harness.sendPause();
+  assert.deepStrictEqual(navigated, ["scores"]);
+  assert.ok(harness.sdk.isPaused());
+  harness.sendInteractions([makeTestTouchEvent("touchstart", [{ x: 10, y: 10 }])]);
+});
+
+test("invalid host messages are reported as protocol errors", () => {
+  let { harness } = makeHarness();
+  let errors: string[] = [];
+  harness.sdk.onProtocolError = error => errors.push(error.message);
+  quietly(() => harness.init());
+  quietly(() => harness.sendMessage({ eventType: "navigate" }));
+  assert.strictEqual(errors.length, 1);
+  assert.ok(/navigateButtonId is missing/.test(errors[0]), errors[0]);
+  assert.deepStrictEqual(getEventTypes(harness.getSentMessages("error")), ["error"]);
+});
+
+test("heartbeats are sent on the fake clock", () => {
+  let { harness } = makeHarness();
+  quietly(() => harness.init());
+  harness.advanceTime(11000);
+  assert.strictEqual(harness.now(), 11000);
+  assert.strictEqual(harness.getSentMessages("heartbeat").length, 2);
+  assert.strictEqual(getEventTypes(harness.getSentMessages()).indexOf("heartbeat"), -1);
+});
+
+test("state saved by the app is restored in the same session", () => {
+  let { harness } = makeHarness();
+  quietly(() => harness.init());
+  harness.sendSaveState();
+  assert.deepStrictEqual(harness.getSavedState(), { score: 3 });
+
+  let restored = makeHarness({ savedState: { score: 5 } }).harness;
+  quietly(() => restored.init());
+  assert.deepStrictEqual(restored.sdk.getSavedState(), { score: 5 });
+});
+
+test("menu changes made by the app are applied to the harness's menu", () => {
+  let { harness } = makeHarness();
+  quietly(() => harness.init());
+  harness.sdk.setMenuNodes([{ id: "scores", iconSrc: "scores.png", navigateButtonId: "scores" }]);
+  harness.sdk.updateMenuNode("scores", { badge: "2" });
+  assert.deepStrictEqual(harness.getMenuNodes(), [{ id: "scores", iconSrc: "scores.png", navigateButtonId: "scores", badge: "2" }]);
+});
+
+test("messages that a version 1 host doesn't understand are not sent to it", () => {
+  let { harness } = makeHarness({ protocolVersion: 1 });
+  quietly(() => {
+    harness.init();
+    harness.sdk.launchApp("quiz");
+    harness.advanceTime(11000);
+  });
+  assert.deepStrictEqual(harness.getSentMessages("launchApp"), []);
+  assert.deepStrictEqual(harness.getSentMessages("heartbeat"), []);
+
+  let current = makeHarness().harness;
+  quietly(() => current.init());
+  let requestId = current.sdk.launchApp("quiz", { level: 2 });
+  let launches = current.getSentMessages("launchApp") as LaunchAppMessage[];
+  assert.deepStrictEqual(launches.map(message => [message.appId, message.requestId]), [["quiz", requestId]]);
+});
+
+test("localize picks the best translation and allows missing values", () => {
+  let harness = quietly(() => new OrdamoTestHarness({ initCallback: () => undefined }, { locales: ["fr-CA"] }));
+  quietly(() => harness.init());
+  assert.strictEqual(harness.sdk.localize({ en: "Hello", "fr-FR": "Bonjour" }), "Bonjour");
+  assert.strictEqual(harness.sdk.localize({ de: "Hallo" }), "Hallo");
+  assert.strictEqual(harness.sdk.localize(null), undefined);
+  assert.strictEqual(harness.sdk.localize(undefined), undefined);
+});